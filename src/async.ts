@@ -1,16 +1,88 @@
-import { isFailure, isSuccess, match, Result } from "~/result";
-import { AsyncMatch } from "~/types";
+import {
+    all,
+    ErrorsOf,
+    failure,
+    flatten,
+    fromTryAsync,
+    isFailure,
+    isSuccess,
+    map,
+    match,
+    Result,
+    ValuesOf,
+} from "~/result";
+import { AbortedError } from "~/timeout";
+import { AsyncMatch, Awaitable } from "~/types";
 
-export interface Pending {
+export interface Pending<P = unknown> {
     status: "pending";
+    /** How far the operation has progressed, in any format */
+    progress?: P;
 }
 
 export type AsyncResult<V, E> = Pending | Result<V, E>;
 
+/** An operation that has not started yet */
+export interface Idle {
+    status: "idle";
+}
+
+/** An operation that is running again, with the result of the previous run */
+export interface Refreshing<V, E, P = unknown> {
+    status: "refreshing";
+    previous: Result<V, E>;
+    progress?: P;
+}
+
+/**
+ * The full lifecycle of an async operation. `AsyncResult` is the subset without `idle` and `refreshing`,
+ * so functions that accept an `AsyncState` accept an `AsyncResult` too.
+ */
+export type AsyncState<V, E, P = unknown> = Idle | Pending<P> | Refreshing<V, E, P> | Result<V, E>;
+
 export const pending: Pending = { status: "pending" };
 
-export function isPending<V, E>(result: AsyncResult<V, E>): result is Pending {
-    return result != null && typeof result === "object" && "status" in result && result.status === "pending";
+export const idle: Idle = { status: "idle" };
+
+/** Creates a pending state with a progress payload */
+export function progress<P>(value: P): Pending<P> {
+    return { status: "pending", progress: value };
+}
+
+export function refreshing<V, E, P = never>(previous: Result<V, E>, progress?: P): Refreshing<V, E, P> {
+    return progress === undefined ? { status: "refreshing", previous } : { status: "refreshing", previous, progress };
+}
+
+/**
+ * Returns the state of an operation that starts again: `refreshing` if there is a previous result,
+ * otherwise `pending`.
+ */
+export function reload<V, E>(state: AsyncState<V, E>): Pending | Refreshing<V, E> {
+    if (isRefreshing(state)) {
+        return refreshing(state.previous);
+    }
+    return isResult<V, E>(state) ? refreshing(state) : pending;
+}
+
+function hasStatus(result: unknown, status: string): boolean {
+    return result != null && typeof result === "object" && "status" in result && result.status === status;
+}
+
+export function isPending<V, E, P = unknown>(result: AsyncState<V, E, P>): result is Pending<P> {
+    return hasStatus(result, "pending");
+}
+
+export function isIdle<V, E, P = unknown>(result: AsyncState<V, E, P>): result is Idle {
+    return hasStatus(result, "idle");
+}
+
+export function isRefreshing<V, E, P = unknown>(result: AsyncState<V, E, P>): result is Refreshing<V, E, P> {
+    return hasStatus(result, "refreshing");
+}
+
+/** Checks if the operation is running, with or without a previous result */
+export function isLoading<V, E, P = unknown>(result: AsyncState<V, E, P>): result is Pending<P> | Refreshing<V, E, P> {
+    return isPending(result) || isRefreshing(result);
 }
 
 export function isResult<V, E>(result: any): result is Result<V, E> {
@@ -21,6 +93,125 @@ export function isAsyncResult<V, E>(result: any): result is AsyncResult<V, E> {
     return isPending(result) || isResult(result);
 }
 
-export async function matchAsync<V, E, T>(result: AsyncResult<V, E>, patterns: AsyncMatch<V, E, T>): Promise<T> {
-    return isPending(result) ? patterns.pending() : match(result, patterns);
+export function isAsyncState<V, E>(result: any): result is AsyncState<V, E> {
+    return isIdle(result) || isRefreshing(result) || isAsyncResult(result);
+}
+
+/**
+ * Calls the handler for the state. `idle` falls back to the `pending` handler,
+ * and `refreshing` falls back to the handler of the previous result.
+ */
+export async function matchAsync<V, E, T, P = unknown>(
+    result: AsyncState<V, E, P>,
+    patterns: AsyncMatch<V, E, T, P>
+): Promise<T> {
+    if (isIdle(result)) {
+        return patterns.idle ? patterns.idle() : patterns.pending();
+    }
+    if (isPending(result)) {
+        return patterns.pending(result.progress);
+    }
+    if (isRefreshing(result)) {
+        return patterns.refreshing
+            ? patterns.refreshing(result.previous, result.progress)
+            : match(result.previous, patterns);
+    }
+    return match(result, patterns);
+}
+
+/**
+ * Maps the value of a success, including the previous result of a `refreshing` state.
+ * Other states are returned as is.
+ */
+export function mapAsyncResult<V, U, E>(result: AsyncResult<V, E>, fn: (value: V) => U): AsyncResult<U, E>;
+export function mapAsyncResult<V, U, E, P>(result: AsyncState<V, E, P>, fn: (value: V) => U): AsyncState<U, E, P>;
+export function mapAsyncResult<V, U, E, P>(result: AsyncState<V, E, P>, fn: (value: V) => U): AsyncState<U, E, P> {
+    if (isRefreshing(result)) {
+        return { ...result, previous: map(result.previous, fn) };
+    }
+    return isResult<V, E>(result) ? map(result, fn) : result;
+}
+
+/**
+ * Chains a success into another async state. A `refreshing` state chains its previous result,
+ * and stays `refreshing` if that gives a result.
+ *
+ * const posts = chainAsyncResult(user, user => postsByAuthor.get(user.id));
+ */
+export function chainAsyncResult<V, U, E>(
+    result: AsyncResult<V, E>,
+    fn: (value: V) => AsyncResult<U, E>
+): AsyncResult<U, E>;
+export function chainAsyncResult<V, U, E, P>(
+    result: AsyncState<V, E, P>,
+    fn: (value: V) => AsyncState<U, E, P>
+): AsyncState<U, E, P>;
+export function chainAsyncResult<V, U, E, P>(
+    result: AsyncState<V, E, P>,
+    fn: (value: V) => AsyncState<U, E, P>
+): AsyncState<U, E, P> {
+    if (isRefreshing(result)) {
+        const next = isSuccess(result.previous) ? fn(result.previous.value) : result.previous;
+        return isResult<U, E>(next) ? { ...result, previous: next } : next;
+    }
+    return isResult<V, E>(result) ? (isSuccess(result) ? fn(result.value) : result) : result;
+}
+
+type AsyncStates = readonly AsyncState<unknown, unknown>[] | Record<string, AsyncState<unknown, unknown>>;
+
+/**
+ * Combines async results into one: `pending` if any is pending, otherwise the first failure,
+ * otherwise a success with the values in the same shape. Accepts tuples, arrays and records.
+ * For async states, `idle` comes after `pending`, and `refreshing` combines the previous results.
+ *
+ * const page = combineAsyncResults({ user, posts }); // AsyncResult<{ user: User; posts: Post[] }, ...>
+ */
+export function combineAsyncResults<T extends readonly AsyncResult<unknown, unknown>[] | []>(
+    results: T
+): AsyncResult<ValuesOf<T>, ErrorsOf<T>>;
+export function combineAsyncResults<T extends Record<string, AsyncResult<unknown, unknown>>>(
+    results: T
+): AsyncResult<ValuesOf<T>, ErrorsOf<T>>;
+export function combineAsyncResults<T extends readonly AsyncState<unknown, unknown>[] | []>(
+    results: T
+): AsyncState<ValuesOf<T>, ErrorsOf<T>>;
+export function combineAsyncResults<T extends Record<string, AsyncState<unknown, unknown>>>(
+    results: T
+): AsyncState<ValuesOf<T>, ErrorsOf<T>>;
+export function combineAsyncResults(results: AsyncStates): AsyncState<unknown, unknown> {
+    const entries = Object.entries(results);
+    const states = entries.map(([, state]) => state);
+    if (states.some(isPending)) {
+        return pending;
+    }
+    if (states.some(isIdle)) {
+        return idle;
+    }
+    // refreshing states are combined with their previous results
+    const settled = states.map(state => (isRefreshing(state) ? state.previous : state) as Result<unknown, unknown>);
+    const combined = map(all(settled), values =>
+        Array.isArray(results) ? values : Object.fromEntries(entries.map(([key], i) => [key, values[i]]))
+    );
+    return states.some(isRefreshing) ? refreshing(combined) : combined;
+}
+
+/**
+ * Wraps a Result-returning function so that only the latest call wins. Thrown errors are returned as failures.
+ * When a call starts, the calls still in flight resolve with an `AbortedError` failure instead of their result,
+ * so that a slow early response cannot overwrite a newer one.
+ *
+ * const search = switchLatest((query: string) => fromTryAsync(() => api.search(query)));
+ */
+export function switchLatest<A extends unknown[], V, E>(
+    fn: (...args: A) => Awaitable<Result<V, E>>
+): (...args: A) => Promise<Result<V, E | AbortedError>> {
+    let latest = 0;
+    return async (...args: A) => {
+        const call = ++latest;
+        const result = flatten(await fromTryAsync<Result<V, E>, E>(() => fn(...args)));
+        if (call !== latest) {
+            return failure(new AbortedError({ message: "Superseded by a newer call" }));
+        }
+        return result;
+    };
 }
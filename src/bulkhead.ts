@@ -0,0 +1,96 @@
+import { Clock, systemClock } from "~/clock";
+import { createEmitter } from "~/emitter";
+import { failure, flatten, fromTryAsync, Result } from "~/result";
+import { defineError } from "~/tagged";
+import { Awaitable } from "~/types";
+
+export interface BulkheadOptions {
+    /** The maximum number of calls running at the same time */
+    maxConcurrent: number;
+    /** The maximum number of calls waiting for a free slot. Defaults to 0. */
+    maxQueue?: number;
+    clock?: Clock;
+}
+
+export type BulkheadEvents<E> = {
+    /** A call started, after waiting in the queue for the given number of milliseconds */
+    start: (waited: number) => void;
+    /** A call finished, after running for the given number of milliseconds */
+    finish: (result: Result<unknown, E>, duration: number) => void;
+    reject: (error: BulkheadRejectedError) => void;
+};
+
+/**
+ * A function guarded by a bulkhead, with its load and events.
+ */
+export interface Bulkhead<A extends unknown[], V, E> {
+    (...args: A): Promise<Result<V, E | BulkheadRejectedError>>;
+    /** The number of calls running */
+    readonly running: number;
+    /** The number of calls waiting for a free slot */
+    readonly queued: number;
+    on<K extends keyof BulkheadEvents<E>>(event: K, listener: BulkheadEvents<E>[K]): () => void;
+}
+
+/** The failure of a call that was rejected because the bulkhead and its queue are full. */
+export class BulkheadRejectedError extends defineError("BulkheadRejectedError")<{
+    maxConcurrent: number;
+    maxQueue: number;
+}> {}
+
+/**
+ * Wraps a Result-returning function so that at most `maxConcurrent` calls run at the same time,
+ * and at most `maxQueue` calls wait for a free slot. Other calls fail immediately with a `BulkheadRejectedError`.
+ * Thrown errors and rejections are returned as failures.
+ *
+ * const search = bulkhead((query: string) => fromTryAsync(() => api.search(query)), { maxConcurrent: 4, maxQueue: 20 });
+ */
+export function bulkhead<A extends unknown[], V, E>(
+    fn: (...args: A) => Awaitable<Result<V, E>>,
+    options: BulkheadOptions
+): Bulkhead<A, V, E> {
+    const { maxConcurrent, maxQueue = 0, clock = systemClock } = options;
+    if (!(maxConcurrent >= 1)) {
+        throw new RangeError(`Invalid maxConcurrent: ${maxConcurrent}`);
+    }
+    const events = createEmitter<BulkheadEvents<E>>();
+    const queue: Array<() => void> = [];
+    let running = 0;
+
+    const call = async (...args: A): Promise<Result<V, E | BulkheadRejectedError>> => {
+        const queuedAt = clock.now();
+        if (running >= maxConcurrent) {
+            if (queue.length >= maxQueue) {
+                const message = `The bulkhead is full (${maxConcurrent} running, ${maxQueue} queued)`;
+                const error = new BulkheadRejectedError({ message, maxConcurrent, maxQueue });
+                events.emit("reject", error);
+                return failure(error);
+            }
+            // the slot is handed over by the call that finishes, so running is not decremented in between
+            await new Promise<void>(resolve => queue.push(resolve));
+        } else {
+            running++;
+        }
+
+        try {
+            const startedAt = clock.now();
+            events.emit("start", startedAt - queuedAt);
+            const result = flatten(await fromTryAsync<Result<V, E>, E>(() => fn(...args)));
+            events.emit("finish", result, clock.now() - startedAt);
+            return result;
+        } finally {
+            const next = queue.shift();
+            if (next) {
+                next();
+            } else {
+                running--;
+            }
+        }
+    };
+
+    return Object.defineProperties(call, {
+        running: { get: () => running },
+        queued: { get: () => queue.length },
+        on: { value: events.on },
+    }) as Bulkhead<A, V, E>;
+}
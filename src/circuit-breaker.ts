@@ -0,0 +1,143 @@
+import { Clock, systemClock } from "~/clock";
+import { createEmitter } from "~/emitter";
+import { failure, flatten, fromTryAsync, isSuccess, Result } from "~/result";
+import { defineError } from "~/tagged";
+import { Awaitable } from "~/types";
+
+/**
+ * `closed` lets calls through, `open` rejects them,
+ * and `half-open` lets a few trial calls through to decide whether to close again.
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions<E> {
+    /** The number of consecutive failures that opens the circuit. Defaults to 5. */
+    failureThreshold?: number;
+    /** How long the circuit stays open before letting trial calls through, in milliseconds. Defaults to 10 seconds. */
+    resetTimeout?: number;
+    /** The maximum number of trial calls running at the same time while half-open. Defaults to 1. */
+    halfOpenMax?: number;
+    /** Decides if a failure counts towards opening the circuit. Defaults to counting every failure. */
+    shouldTrip?: (error: E) => boolean;
+    clock?: Clock;
+}
+
+export type CircuitBreakerEvents<E> = {
+    stateChange: (state: CircuitState, previous: CircuitState) => void;
+    success: () => void;
+    failure: (error: E) => void;
+    reject: (error: CircuitOpenError) => void;
+};
+
+/**
+ * A function guarded by a circuit breaker, with its state and events.
+ */
+export interface CircuitBreaker<A extends unknown[], V, E> {
+    (...args: A): Promise<Result<V, E | CircuitOpenError>>;
+    readonly state: CircuitState;
+    /** The number of consecutive failures while closed */
+    readonly failures: number;
+    on<K extends keyof CircuitBreakerEvents<E>>(event: K, listener: CircuitBreakerEvents<E>[K]): () => void;
+    /** Closes the circuit and clears the failure count */
+    reset(): void;
+}
+
+/** The failure of a call that was rejected because the circuit is open. */
+export class CircuitOpenError extends defineError("CircuitOpenError")<{ retryAfter: number }> {}
+
+/**
+ * Wraps a Result-returning function with a circuit breaker. After `failureThreshold` consecutive failures,
+ * calls fail immediately with a `CircuitOpenError` until `resetTimeout` has passed.
+ * Thrown errors and rejections count as failures.
+ *
+ * const fetchUser = circuitBreaker((id: string) => fromTryAsync(() => api.getUser(id)), { failureThreshold: 3 });
+ * fetchUser.on("stateChange", state => metrics.gauge("user_api.circuit", state));
+ */
+export function circuitBreaker<A extends unknown[], V, E>(
+    fn: (...args: A) => Awaitable<Result<V, E>>,
+    options: CircuitBreakerOptions<E> = {}
+): CircuitBreaker<A, V, E> {
+    const {
+        failureThreshold = 5,
+        resetTimeout = 10_000,
+        halfOpenMax = 1,
+        shouldTrip = () => true,
+        clock = systemClock,
+    } = options;
+    const events = createEmitter<CircuitBreakerEvents<E>>();
+    let state: CircuitState = "closed";
+    let failures = 0;
+    let openedAt = 0;
+    let trials = 0;
+
+    const transition = (next: CircuitState) => {
+        const previous = state;
+        if (next !== previous) {
+            state = next;
+            if (next === "open") {
+                openedAt = clock.now();
+            }
+            failures = 0;
+            events.emit("stateChange", next, previous);
+        }
+    };
+
+    const reject = (retryAfter: number) => {
+        const error = new CircuitOpenError({ message: "The circuit is open", retryAfter });
+        events.emit("reject", error);
+        return failure(error);
+    };
+
+    const call = async (...args: A): Promise<Result<V, E | CircuitOpenError>> => {
+        if (state === "open") {
+            const elapsed = clock.now() - openedAt;
+            if (elapsed < resetTimeout) {
+                return reject(resetTimeout - elapsed);
+            }
+            transition("half-open");
+        }
+        // only calls that started while half-open decide whether to close the circuit
+        const trial = state === "half-open";
+        if (trial) {
+            if (trials >= halfOpenMax) {
+                return reject(0);
+            }
+            trials++;
+        }
+
+        const result = flatten(await fromTryAsync<Result<V, E>, E>(() => fn(...args)));
+        if (trial) {
+            trials--;
+        }
+        if (isSuccess(result)) {
+            events.emit("success");
+            if (trial && state === "half-open") {
+                transition("closed");
+            } else if (state === "closed") {
+                failures = 0;
+            }
+        } else {
+            events.emit("failure", result.error);
+            if (shouldTrip(result.error)) {
+                if (trial && state === "half-open") {
+                    transition("open");
+                } else if (state === "closed" && ++failures >= failureThreshold) {
+                    transition("open");
+                }
+            }
+        }
+        return result;
+    };
+
+    return Object.defineProperties(call, {
+        state: { get: () => state },
+        failures: { get: () => failures },
+        on: { value: events.on },
+        reset: {
+            value: () => {
+                transition("closed");
+                failures = 0;
+            },
+        },
+    }) as CircuitBreaker<A, V, E>;
+}
@@ -0,0 +1,28 @@
+/**
+ * A source of time. Pass a custom clock to the time-based utilities to control time in tests.
+ */
+export interface Clock {
+    /** Returns the current time in milliseconds */
+    now(): number;
+    /** Resolves after the given number of milliseconds, or rejects with the abort reason */
+    sleep(ms: number, signal?: AbortSignal): Promise<void>;
+}
+
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    sleep: (ms, signal) =>
+        new Promise<void>((resolve, reject) => {
+            if (signal?.aborted) {
+                return reject(signal.reason);
+            }
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(signal?.reason);
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener("abort", onAbort);
+                resolve();
+            }, ms);
+            signal?.addEventListener("abort", onAbort, { once: true });
+        }),
+};
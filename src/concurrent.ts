@@ -0,0 +1,162 @@
+import { failure, Failure, fromTryAsync, isSuccess, Result, Success, success } from "~/result";
+import { Awaitable } from "~/types";
+
+/**
+ * An async operation that receives a signal, which is aborted when its result is no longer needed.
+ */
+export type Task<V> = (signal: AbortSignal) => Awaitable<V>;
+
+export interface ConcurrencyOptions {
+    /** The maximum number of tasks running at the same time. Defaults to no limit. */
+    concurrency?: number;
+    /** Stops starting new tasks and aborts the running ones when aborted. */
+    signal?: AbortSignal;
+}
+
+/** Maps a tuple or array of tasks to the same shape of values */
+export type TaskValues<T> = {
+    -readonly [K in keyof T]: T[K] extends Task<unknown> ? Awaited<ReturnType<T[K]>> : never;
+};
+
+/**
+ * Runs tasks with a concurrency limit, passing each result to `onResult` as it settles.
+ * Stops early, and aborts the running tasks, when `onResult` returns true or the signal is aborted.
+ * Resolves with the abort reason if the signal was aborted.
+ */
+function schedule<V, E>(
+    tasks: readonly Task<V>[],
+    options: ConcurrencyOptions,
+    onResult: (result: Result<V, E>, index: number) => boolean
+): Promise<Failure<E> | undefined> {
+    const { concurrency = Infinity, signal } = options;
+    if (!(concurrency >= 1)) {
+        throw new RangeError(`Invalid concurrency: ${concurrency}`);
+    }
+
+    return new Promise(resolve => {
+        // each task gets its own controller, so that only the running ones are aborted
+        const controllers = new Set<AbortController>();
+        let next = 0;
+        let done = false;
+
+        const finish = (aborted?: Failure<E>, early = false) => {
+            if (done) {
+                return;
+            }
+            done = true;
+            signal?.removeEventListener("abort", onAbort);
+            if (early) {
+                controllers.forEach(controller => controller.abort(aborted?.error));
+            }
+            resolve(aborted);
+        };
+
+        const onAbort = () => finish(failure(signal?.reason as E), true);
+
+        const launch = () => {
+            while (!done && controllers.size < concurrency && next < tasks.length) {
+                const index = next++;
+                const controller = new AbortController();
+                controllers.add(controller);
+                fromTryAsync<V, E>(() => tasks[index](controller.signal)).then(result => {
+                    controllers.delete(controller);
+                    if (done) {
+                        return;
+                    }
+                    if (onResult(result, index)) {
+                        finish(undefined, true);
+                    } else if (next >= tasks.length && controllers.size === 0) {
+                        finish();
+                    } else {
+                        launch();
+                    }
+                });
+            }
+        };
+
+        if (signal?.aborted) {
+            return onAbort();
+        }
+        if (tasks.length === 0) {
+            return finish();
+        }
+        signal?.addEventListener("abort", onAbort, { once: true });
+        launch();
+    });
+}
+
+/**
+ * Runs tasks with a concurrency limit, and succeeds with all the values in input order.
+ * Fails fast with the first failure, without starting the remaining tasks,
+ * and aborts the signal passed to the tasks that are still running.
+ *
+ * const users = await allAsync(ids.map(id => signal => fetchUser(id, { signal })), { concurrency: 4 });
+ */
+export function allAsync<T extends readonly Task<unknown>[] | [], E>(
+    tasks: T,
+    options?: ConcurrencyOptions
+): Promise<Result<TaskValues<T>, E>>;
+export function allAsync<V, E>(tasks: Iterable<Task<V>>, options?: ConcurrencyOptions): Promise<Result<V[], E>>;
+export async function allAsync<V, E>(
+    tasks: Iterable<Task<V>>,
+    options: ConcurrencyOptions = {}
+): Promise<Result<V[], E>> {
+    const list = Array.from(tasks);
+    const values: V[] = new Array(list.length);
+    let failed: Failure<E> | undefined;
+    const aborted = await schedule<V, E>(list, options, (result, index) => {
+        if (isSuccess(result)) {
+            values[index] = result.value;
+            return false;
+        }
+        failed = result;
+        return true;
+    });
+    return aborted ?? failed ?? success(values);
+}
+
+/**
+ * Runs tasks with a concurrency limit, and succeeds with the first success.
+ * The remaining tasks are not started, and the running ones are aborted.
+ * Fails with all the errors in input order if every task fails.
+ */
+export async function anyAsync<V, E>(
+    tasks: Iterable<Task<V>>,
+    options: ConcurrencyOptions = {}
+): Promise<Result<V, E[]>> {
+    const list = Array.from(tasks);
+    const errors: E[] = new Array(list.length);
+    const settled: boolean[] = new Array(list.length).fill(false);
+    let found: Success<V> | undefined;
+    const aborted = await schedule<V, E>(list, options, (result, index) => {
+        if (isSuccess(result)) {
+            found = result;
+            return true;
+        }
+        errors[index] = result.error;
+        settled[index] = true;
+        return false;
+    });
+    if (found) {
+        return found;
+    }
+    // tasks that did not settle before the abort fail with the abort reason
+    return failure(aborted ? list.map((_, i) => (settled[i] ? errors[i] : aborted.error)) : errors);
+}
+
+/**
+ * Runs tasks with a concurrency limit, and returns every result in input order.
+ * If the signal is aborted, tasks that have not settled fail with the abort reason.
+ */
+export async function settleAsync<V, E>(
+    tasks: Iterable<Task<V>>,
+    options: ConcurrencyOptions = {}
+): Promise<Result<V, E>[]> {
+    const list = Array.from(tasks);
+    const results: (Result<V, E> | undefined)[] = new Array(list.length).fill(undefined);
+    const aborted = await schedule<V, E>(list, options, (result, index) => {
+        results[index] = result;
+        return false;
+    });
+    return results.map(result => result ?? (aborted as Failure<E>));
+}
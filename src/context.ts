@@ -0,0 +1,71 @@
+import { failure, isSuccess, Result } from "~/result";
+import { defineError } from "~/tagged";
+
+/**
+ * An error that describes what was being attempted when its `cause` happened.
+ */
+export class ContextError extends defineError("ContextError") {}
+
+export interface FormatErrorChainOptions {
+    /** Includes stack frames when available. Defaults to true. */
+    stack?: boolean;
+}
+
+/**
+ * Wraps a failure in a `ContextError` with the given message, keeping the original error as its cause.
+ *
+ * const config = context(fromTry(() => JSON.parse(text)), `loading config for tenant ${tenant}`);
+ */
+export function context<V, E>(result: Result<V, E>, message: string): Result<V, ContextError> {
+    return isSuccess(result) ? result : failure(new ContextError({ message, cause: result.error }));
+}
+
+/**
+ * Like `context`, but the message is only computed when the result is a failure.
+ */
+export function withContext<V, E>(result: Result<V, E>, fn: (error: E) => string): Result<V, ContextError> {
+    return isSuccess(result) ? result : failure(new ContextError({ message: fn(result.error), cause: result.error }));
+}
+
+/**
+ * Returns the error followed by each of its causes.
+ */
+export function errorChain(error: unknown): unknown[] {
+    const chain: unknown[] = [];
+    const seen = new Set<unknown>();
+    let current = error;
+    while (current != null && !seen.has(current)) {
+        chain.push(current);
+        seen.add(current);
+        current = current instanceof Error ? current.cause : undefined;
+    }
+    return chain;
+}
+
+function formatError(error: unknown, stack: boolean): string {
+    if (!(error instanceof Error)) {
+        return String(error);
+    }
+    const header = error.message ? `${error.name}: ${error.message}` : error.name;
+    if (!stack || !error.stack) {
+        return header;
+    }
+    // the first lines of the stack repeat the header, so only keep the frames
+    const frames = error.stack.split("\n").filter(line => /^\s+at\s/.test(line));
+    return [header, ...frames].join("\n");
+}
+
+/**
+ * Renders an error and its causes, one after the other.
+ *
+ * ContextError: loading config for tenant X
+ *     at ...
+ * Caused by: SyntaxError: Unexpected token } in JSON
+ *     at ...
+ */
+export function formatErrorChain(error: unknown, options: FormatErrorChainOptions = {}): string {
+    const { stack = true } = options;
+    return errorChain(error)
+        .map((item, i) => (i === 0 ? "" : "Caused by: ") + formatError(item, stack))
+        .join("\n");
+}
@@ -0,0 +1,132 @@
+import * as ctx from "~/context";
+import { ContextError } from "~/context";
+import * as base from "~/result";
+import { Result, Success } from "~/result";
+import { Awaitable, Match, Recover } from "~/types";
+
+// Data-last versions of the result combinators, for use with `pipe` and `flow`.
+// These are exported from the index as the `R` namespace.
+
+// unary operations are already data-last
+export { flatten, swap, unwrap } from "~/result";
+
+export function unwrapOr<V>(): <E>(result: Result<V, E>) => V | undefined;
+export function unwrapOr<V>(defaultValue: V): <E>(result: Result<V, E>) => V;
+export function unwrapOr<V>(defaultValue?: V): <E>(result: Result<V, E>) => V | undefined {
+    return result => base.unwrapOr(result, defaultValue);
+}
+
+export function unwrapOrElse<V, E>(fn: Recover<V, E>): (result: Result<V, E>) => V {
+    return result => base.unwrapOrElse(result, fn);
+}
+
+export function recover<V, E>(fn: Recover<V, E>): (result: Result<V, E>) => Success<V> {
+    return result => base.recover(result, fn);
+}
+
+export function match<V, E, T>(patterns: Match<V, E, T>): (result: Result<V, E>) => T {
+    return result => base.match(result, patterns);
+}
+
+export function map<V, U>(fn: (value: V) => U): <E>(result: Result<V, E>) => Result<U, E> {
+    return result => base.map(result, fn);
+}
+
+export function chain<V, U, E>(fn: (value: V) => Result<U, E>): (result: Result<V, E>) => Result<U, E> {
+    return result => base.chain(result, fn);
+}
+
+export function mapError<E, F>(fn: (error: E) => F): <V>(result: Result<V, E>) => Result<V, F> {
+    return result => base.mapError(result, fn);
+}
+
+export function bimap<V, E, U, F>(
+    onSuccess: (value: V) => U,
+    onFailure: (error: E) => F
+): (result: Result<V, E>) => Result<U, F> {
+    return result => base.bimap(result, onSuccess, onFailure);
+}
+
+export function tap<V>(fn: (value: V) => void): <E>(result: Result<V, E>) => Result<V, E> {
+    return result => base.tap(result, fn);
+}
+
+export function tapError<E>(fn: (error: E) => void): <V>(result: Result<V, E>) => Result<V, E> {
+    return result => base.tapError(result, fn);
+}
+
+export function orElse<V, E, F>(fn: (error: E) => Result<V, F>): (result: Result<V, E>) => Result<V, F> {
+    return result => base.orElse(result, fn);
+}
+
+export function filter<V, U extends V, F>(
+    predicate: (value: V) => value is U,
+    error: (value: V) => F
+): <E>(result: Result<V, E>) => Result<U, E | F>;
+export function filter<V, F>(
+    predicate: (value: V) => boolean,
+    error: (value: V) => F
+): <E>(result: Result<V, E>) => Result<V, E | F>;
+export function filter<V, F>(
+    predicate: (value: V) => boolean,
+    error: (value: V) => F
+): <E>(result: Result<V, E>) => Result<V, E | F> {
+    return result => base.filter(result, predicate, error);
+}
+
+export function zip<U, F>(other: Result<U, F>): <V, E>(result: Result<V, E>) => Result<[V, U], E | F> {
+    return result => base.zip(result, other);
+}
+
+export function zipWith<V, U, T, F>(
+    other: Result<U, F>,
+    fn: (a: V, b: U) => T
+): <E>(result: Result<V, E>) => Result<T, E | F> {
+    return result => base.zipWith(result, other, fn);
+}
+
+export function and<U, F>(other: Result<U, F>): <V, E>(result: Result<V, E>) => Result<U, E | F> {
+    return result => base.and(result, other);
+}
+
+export function or<U, F>(other: Result<U, F>): <V, E>(result: Result<V, E>) => Result<V | U, F> {
+    return result => base.or(result, other);
+}
+
+export function mapAsync<V, U>(
+    fn: (value: V) => Awaitable<U>
+): <E>(result: Awaitable<Result<V, E>>) => Promise<Result<U, E>> {
+    return result => base.mapAsync(result, fn);
+}
+
+export function chainAsync<V, U, E>(
+    fn: (value: V) => Awaitable<Result<U, E>>
+): (result: Awaitable<Result<V, E>>) => Promise<Result<U, E>> {
+    return result => base.chainAsync(result, fn);
+}
+
+export function tapAsync<V>(
+    fn: (value: V) => Awaitable<unknown>
+): <E>(result: Awaitable<Result<V, E>>) => Promise<Result<V, E>> {
+    return result => base.tapAsync(result, fn);
+}
+
+export function orElseAsync<V, E, F>(
+    fn: (error: E) => Awaitable<Result<V, F>>
+): (result: Awaitable<Result<V, E>>) => Promise<Result<V, F>> {
+    return result => base.orElseAsync(result, fn);
+}
+
+export function recoverAsync<V, E>(
+    fn: (error: E) => Awaitable<V>
+): (result: Awaitable<Result<V, E>>) => Promise<Success<V>> {
+    return result => base.recoverAsync(result, fn);
+}
+
+export function context(message: string): <V, E>(result: Result<V, E>) => Result<V, ContextError> {
+    return result => ctx.context(result, message);
+}
+
+export function withContext<E>(fn: (error: E) => string): <V>(result: Result<V, E>) => Result<V, ContextError> {
+    return result => ctx.withContext(result, fn);
+}
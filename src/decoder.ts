@@ -0,0 +1,146 @@
+import { failure, isFailure, Result, success } from "~/result";
+import { NonEmptyArray } from "~/types";
+import { FieldError, validateFields } from "~/validate";
+
+// Decoders check unknown input and return a typed result, with every issue and its path.
+// These are exported from the index as the `D` namespace.
+
+/** An issue found by a decoder, with the path where it happened */
+export type DecodeError = FieldError<string>;
+
+export type Decoder<T> = (input: unknown) => Result<T, NonEmptyArray<DecodeError>>;
+
+/** Extracts the decoded type of a decoder */
+export type Infer<D> = D extends Decoder<infer T> ? T : never;
+
+type Shape = Record<string, Decoder<unknown>>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/** Fields whose decoder accepts `undefined` are optional */
+export type ObjectOf<S extends Shape> = Simplify<
+    { [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]> } & {
+        [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>;
+    }
+>;
+
+type Literal = string | number | boolean | null | undefined;
+
+function describe(input: unknown): string {
+    if (input === null) {
+        return "null";
+    }
+    return Array.isArray(input) ? "array" : typeof input;
+}
+
+function fail(message: string): Result<never, NonEmptyArray<DecodeError>> {
+    return failure([new FieldError([], message)]);
+}
+
+export function string(): Decoder<string> {
+    return input => (typeof input === "string" ? success(input) : fail(`Expected a string, got ${describe(input)}`));
+}
+
+/** Accepts finite numbers */
+export function number(): Decoder<number> {
+    return input =>
+        typeof input === "number" && Number.isFinite(input)
+            ? success(input)
+            : fail(`Expected a number, got ${describe(input)}`);
+}
+
+export function boolean(): Decoder<boolean> {
+    return input => (typeof input === "boolean" ? success(input) : fail(`Expected a boolean, got ${describe(input)}`));
+}
+
+export function literal<const T extends Literal>(value: T): Decoder<T> {
+    return input => (input === value ? success(value) : fail(`Expected ${JSON.stringify(value) ?? "undefined"}`));
+}
+
+export function array<T>(decoder: Decoder<T>): Decoder<T[]> {
+    return input => {
+        if (!Array.isArray(input)) {
+            return fail(`Expected an array, got ${describe(input)}`);
+        }
+        return validateFields(input.map(item => decoder(item)));
+    };
+}
+
+/**
+ * Decodes an object with the given fields. Unknown fields are removed.
+ *
+ * const User = D.object({ name: D.string(), age: D.optional(D.number()) });
+ * type User = D.Infer<typeof User>; // { name: string; age?: number }
+ */
+export function object<S extends Shape>(shape: S): Decoder<ObjectOf<S>> {
+    return input => {
+        if (input == null || typeof input !== "object" || Array.isArray(input)) {
+            return fail(`Expected an object, got ${describe(input)}`);
+        }
+        const record = input as Record<string, unknown>;
+        // inherited properties such as `constructor` are not fields
+        const field = (key: string) => (Object.hasOwn(record, key) ? record[key] : undefined);
+        const result = validateFields(
+            Object.fromEntries(Object.entries(shape).map(([key, decoder]) => [key, decoder(field(key))]))
+        );
+        if (isFailure(result)) {
+            return result;
+        }
+        // optional fields that are missing stay missing
+        const entries = Object.entries(result.value).filter(
+            ([key, value]) => Object.hasOwn(record, key) || value !== undefined
+        );
+        return success(Object.fromEntries(entries) as ObjectOf<S>);
+    };
+}
+
+/**
+ * Decodes with the first decoder that succeeds, or fails with the issues of every decoder.
+ */
+export function union<T extends readonly Decoder<unknown>[]>(...decoders: T): Decoder<Infer<T[number]>> {
+    return input => {
+        const errors: DecodeError[] = [];
+        for (const decoder of decoders) {
+            const result = decoder(input);
+            if (!isFailure(result)) {
+                return result as Result<Infer<T[number]>, never>;
+            }
+            errors.push(...result.error);
+        }
+        return errors.length > 0 ? failure(errors as NonEmptyArray<DecodeError>) : fail("Expected no value");
+    };
+}
+
+/** Accepts `undefined`, or a value that passes the decoder */
+export function optional<T>(decoder: Decoder<T>): Decoder<T | undefined> {
+    return input => (input === undefined ? success(undefined) : decoder(input));
+}
+
+/**
+ * Adds a check to a decoder, failing with the message if the predicate does not hold.
+ *
+ * const Age = D.refine(D.number(), n => n >= 0, "Expected a positive number");
+ */
+export function refine<T, U extends T>(
+    decoder: Decoder<T>,
+    predicate: (value: T) => value is U,
+    message: string | ((value: T) => string)
+): Decoder<U>;
+export function refine<T>(
+    decoder: Decoder<T>,
+    predicate: (value: T) => boolean,
+    message: string | ((value: T) => string)
+): Decoder<T>;
+export function refine<T>(
+    decoder: Decoder<T>,
+    predicate: (value: T) => boolean,
+    message: string | ((value: T) => string)
+): Decoder<T> {
+    return input => {
+        const result = decoder(input);
+        if (isFailure(result) || predicate(result.value)) {
+            return result;
+        }
+        return fail(typeof message === "string" ? message : message(result.value));
+    };
+}
@@ -0,0 +1,35 @@
+/** Maps event names to listener signatures */
+export type EventMap = { [event: string]: (...args: never[]) => void };
+
+export interface Emitter<T extends EventMap> {
+    /** Adds a listener, and returns a function that removes it */
+    on<K extends keyof T>(event: K, listener: T[K]): () => void;
+    emit<K extends keyof T>(event: K, ...args: Parameters<T[K]>): void;
+}
+
+/**
+ * A minimal typed event emitter, for the utilities that report events for metrics.
+ * Listeners are called synchronously, in the order they were added.
+ * Errors thrown by listeners are ignored, so that reporting never breaks the calls being reported.
+ */
+export function createEmitter<T extends EventMap>(): Emitter<T> {
+    const listeners = new Map<keyof T, Set<T[keyof T]>>();
+    return {
+        on(event, listener) {
+            const set = listeners.get(event) ?? new Set();
+            listeners.set(event, set.add(listener));
+            return () => {
+                set.delete(listener);
+            };
+        },
+        emit(event, ...args) {
+            listeners.get(event)?.forEach(listener => {
+                try {
+                    (listener as unknown as (...args: unknown[]) => void)(...args);
+                } catch {
+                    // ignored, see above
+                }
+            });
+        },
+    };
+}
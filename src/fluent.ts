@@ -0,0 +1,276 @@
+import { matchAsync } from "~/async";
+import {
+    filterMaybe,
+    getOrElse,
+    isNone,
+    isSome,
+    matchMaybe,
+    Maybe,
+    none,
+    orElseMaybe,
+    toMaybe,
+    toNullable,
+    toUndefined,
+    zipMaybe,
+} from "~/maybe";
+import {
+    and,
+    bimap,
+    chain,
+    chainAsync,
+    failure,
+    Failure,
+    filter,
+    flatten,
+    isFailure,
+    isSuccess,
+    map,
+    mapAsync,
+    mapError,
+    match,
+    or,
+    orElse,
+    orElseAsync,
+    recover,
+    recoverAsync,
+    Result,
+    success,
+    Success,
+    swap,
+    tap,
+    tapAsync,
+    tapError,
+    unwrap,
+    unwrapOr,
+    unwrapOrElse,
+    zip,
+    zipWith,
+} from "~/result";
+import { AsyncMatch, Awaitable, Fn, Match, MatchMaybe, Recover } from "~/types";
+
+export interface FluentMethods<V, E> {
+    isSuccess(): this is FluentSuccess<V, E>;
+    isFailure(): this is FluentFailure<V, E>;
+    isSome(): this is FluentSuccess<V, E>;
+    isNone(): this is FluentFailure<V, E>;
+    unwrap(): V;
+    unwrapOr(): V | undefined;
+    unwrapOr(defaultValue: V): V;
+    unwrapOrElse(fn: Recover<V, E>): V;
+    recover(fn: Recover<V, E>): FluentSuccess<V, E>;
+    match<T>(patterns: Match<V, E, T>): T;
+    matchAsync<T>(patterns: AsyncMatch<V, E, T>): Promise<T>;
+    map<U>(fn: (value: V) => U): Fluent<U, E>;
+    chain<U>(fn: (value: V) => Result<U, E>): Fluent<U, E>;
+    mapError<F>(fn: (error: E) => F): Fluent<V, F>;
+    bimap<U, F>(onSuccess: (value: V) => U, onFailure: (error: E) => F): Fluent<U, F>;
+    tap(fn: (value: V) => void): Fluent<V, E>;
+    tapError(fn: (error: E) => void): Fluent<V, E>;
+    orElse<F>(fn: (error: E) => Result<V, F>): Fluent<V, F>;
+    flatten<U, F>(this: Fluent<Result<U, F>, E>): Fluent<U, E | F>;
+    swap(): Fluent<E, V>;
+    filter<U extends V, F>(predicate: (value: V) => value is U, error: (value: V) => F): Fluent<U, E | F>;
+    filter<F>(predicate: (value: V) => boolean, error: (value: V) => F): Fluent<V, E | F>;
+    zip<U, F>(other: Result<U, F>): Fluent<[V, U], E | F>;
+    zipWith<U, T, F>(other: Result<U, F>, fn: (a: V, b: U) => T): Fluent<T, E | F>;
+    and<U, F>(other: Result<U, F>): Fluent<U, E | F>;
+    or<U, F>(other: Result<U, F>): Fluent<V | U, F>;
+    mapAsync<U>(fn: (value: V) => Awaitable<U>): Promise<Fluent<U, E>>;
+    chainAsync<U>(fn: (value: V) => Awaitable<Result<U, E>>): Promise<Fluent<U, E>>;
+    tapAsync(fn: (value: V) => Awaitable<unknown>): Promise<Fluent<V, E>>;
+    orElseAsync<F>(fn: (error: E) => Awaitable<Result<V, F>>): Promise<Fluent<V, F>>;
+    recoverAsync(fn: (error: E) => Awaitable<V>): Promise<FluentSuccess<V, E>>;
+    // Maybe operations, which treat every failure as `None`
+    toMaybe(): Fluent<V, null>;
+    toNullable(): V | null;
+    toUndefined(): V | undefined;
+    getOrElse(fn: Fn<V>): V;
+    filterMaybe<U extends V>(predicate: (value: V) => value is U): Fluent<U, null>;
+    filterMaybe(predicate: (value: V) => boolean): Fluent<V, null>;
+    orElseMaybe<U>(fn: Fn<Maybe<U>>): Fluent<V | U, null>;
+    zipMaybe<U>(other: Maybe<U>): Fluent<[V, U], null>;
+    matchMaybe<T>(patterns: MatchMaybe<V, T>): T;
+    toResult(): Result<V, E>;
+}
+
+export type FluentSuccess<V, E> = Success<V> & FluentMethods<V, E>;
+export type FluentFailure<V, E> = Failure<E> & FluentMethods<V, E>;
+
+/**
+ * A result with methods for chaining operations.
+ * It has the same own properties as a plain result, so it can be passed anywhere a `Result` is expected.
+ */
+export type Fluent<V, E = any> = FluentSuccess<V, E> | FluentFailure<V, E>;
+
+class FluentResult<V, E> {
+    isSuccess(this: Result<V, E>) {
+        return isSuccess(this);
+    }
+
+    isFailure(this: Result<V, E>) {
+        return isFailure(this);
+    }
+
+    isSome(this: Result<V, E>) {
+        return isSome(this as Maybe<V>);
+    }
+
+    isNone(this: Result<V, E>) {
+        return isNone(this);
+    }
+
+    unwrap(this: Result<V, E>) {
+        return unwrap(this);
+    }
+
+    unwrapOr(this: Result<V, E>, defaultValue?: V) {
+        return unwrapOr(this, defaultValue as V);
+    }
+
+    unwrapOrElse(this: Result<V, E>, fn: Recover<V, E>) {
+        return unwrapOrElse(this, fn);
+    }
+
+    recover(this: Result<V, E>, fn: Recover<V, E>) {
+        return from(recover(this, fn));
+    }
+
+    match<T>(this: Result<V, E>, patterns: Match<V, E, T>) {
+        return match(this, patterns);
+    }
+
+    matchAsync<T>(this: Result<V, E>, patterns: AsyncMatch<V, E, T>) {
+        return matchAsync(this, patterns);
+    }
+
+    map<U>(this: Result<V, E>, fn: (value: V) => U) {
+        return from(map(this, fn));
+    }
+
+    chain<U>(this: Result<V, E>, fn: (value: V) => Result<U, E>) {
+        return from(chain(this, fn));
+    }
+
+    mapError<F>(this: Result<V, E>, fn: (error: E) => F) {
+        return from(mapError(this, fn));
+    }
+
+    bimap<U, F>(this: Result<V, E>, onSuccess: (value: V) => U, onFailure: (error: E) => F) {
+        return from(bimap(this, onSuccess, onFailure));
+    }
+
+    tap(this: Result<V, E>, fn: (value: V) => void) {
+        return from(tap(this, fn));
+    }
+
+    tapError(this: Result<V, E>, fn: (error: E) => void) {
+        return from(tapError(this, fn));
+    }
+
+    orElse<F>(this: Result<V, E>, fn: (error: E) => Result<V, F>) {
+        return from(orElse(this, fn));
+    }
+
+    flatten<U, F>(this: Result<Result<U, F>, E>) {
+        return from<U, E | F>(flatten(this));
+    }
+
+    swap(this: Result<V, E>) {
+        return from(swap(this));
+    }
+
+    filter<F>(this: Result<V, E>, predicate: (value: V) => boolean, error: (value: V) => F) {
+        return from<V, E | F>(filter(this, predicate, error));
+    }
+
+    zip<U, F>(this: Result<V, E>, other: Result<U, F>) {
+        return from<[V, U], E | F>(zip(this, other));
+    }
+
+    zipWith<U, T, F>(this: Result<V, E>, other: Result<U, F>, fn: (a: V, b: U) => T) {
+        return from(zipWith(this, other, fn));
+    }
+
+    and<U, F>(this: Result<V, E>, other: Result<U, F>) {
+        return from<U, E | F>(and(this, other));
+    }
+
+    or<U, F>(this: Result<V, E>, other: Result<U, F>) {
+        return from<V | U, F>(or(this, other));
+    }
+
+    async mapAsync<U>(this: Result<V, E>, fn: (value: V) => Awaitable<U>) {
+        return from(await mapAsync(this, fn));
+    }
+
+    async chainAsync<U>(this: Result<V, E>, fn: (value: V) => Awaitable<Result<U, E>>) {
+        return from(await chainAsync(this, fn));
+    }
+
+    async tapAsync(this: Result<V, E>, fn: (value: V) => Awaitable<unknown>) {
+        return from(await tapAsync(this, fn));
+    }
+
+    async orElseAsync<F>(this: Result<V, E>, fn: (error: E) => Awaitable<Result<V, F>>) {
+        return from(await orElseAsync(this, fn));
+    }
+
+    async recoverAsync(this: Result<V, E>, fn: (error: E) => Awaitable<V>) {
+        return from(await recoverAsync(this, fn));
+    }
+
+    toMaybe(this: Result<V, E>) {
+        return from(toMaybe(this));
+    }
+
+    toNullable(this: Result<V, E>) {
+        return toNullable(toMaybe(this));
+    }
+
+    toUndefined(this: Result<V, E>) {
+        return toUndefined(toMaybe(this));
+    }
+
+    getOrElse(this: Result<V, E>, fn: Fn<V>) {
+        return getOrElse(toMaybe(this), fn);
+    }
+
+    filterMaybe(this: Result<V, E>, predicate: (value: V) => boolean) {
+        return from(filterMaybe(toMaybe(this), predicate));
+    }
+
+    orElseMaybe<U>(this: Result<V, E>, fn: Fn<Maybe<U>>) {
+        return from(orElseMaybe(toMaybe(this), fn));
+    }
+
+    zipMaybe<U>(this: Result<V, E>, other: Maybe<U>) {
+        return from(zipMaybe(toMaybe(this), other));
+    }
+
+    matchMaybe<T>(this: Result<V, E>, patterns: MatchMaybe<V, T>) {
+        return matchMaybe(toMaybe(this), patterns);
+    }
+
+    toResult(this: Result<V, E>): Result<V, E> {
+        if (isNone(this)) {
+            return none as Failure<unknown> as Result<V, E>;
+        }
+        return isSuccess(this) ? success(this.value) : failure(this.error);
+    }
+}
+
+export function isFluent<V, E>(result: any): result is Fluent<V, E> {
+    return result instanceof FluentResult;
+}
+
+/**
+ * Wraps a result so that operations can be chained as methods.
+ *
+ * from(result).map(f).chain(g).unwrapOr(x)
+ */
+export function from<V, E>(result: Result<V, E>): Fluent<V, E> {
+    if (isFluent<V, E>(result)) {
+        return result;
+    }
+    return Object.assign(Object.create(FluentResult.prototype), result);
+}
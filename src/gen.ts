@@ -0,0 +1,58 @@
+import { Failure, isFailure, Result, ResultError, success } from "~/result";
+
+/**
+ * Unwraps a result inside a `gen` body. Use with `yield*` to get the success value,
+ * or to stop the body early with the failure.
+ */
+export function* bind<V, E>(result: Result<V, E>): Generator<Failure<E>, V, unknown> {
+    if (isFailure(result)) {
+        yield result;
+        throw new Error("Generator was resumed after a failure");
+    }
+    return result.value;
+}
+
+/**
+ * Unwraps a result or a promise of a result inside a `genAsync` body.
+ */
+export async function* bindAsync<V, E>(
+    result: Result<V, E> | Promise<Result<V, E>>
+): AsyncGenerator<Failure<E>, V, unknown> {
+    return yield* bind(await result);
+}
+
+/**
+ * Runs a generator as a sequence of dependent steps, like nested `chain` calls.
+ * Returns the first failure yielded, or a success with the returned value.
+ *
+ * const result = gen(function* () {
+ *     const user = yield* bind(loadUser(id));
+ *     const team = yield* bind(loadTeam(user.teamId));
+ *     return { user, team };
+ * });
+ */
+export function gen<T, Y extends Failure<unknown>>(body: () => Generator<Y, T, unknown>): Result<T, ResultError<Y>> {
+    const iterator = body();
+    const step = iterator.next();
+    if (step.done) {
+        return success(step.value);
+    }
+    // run any finally blocks in the body before returning
+    iterator.return(undefined as T);
+    return step.value as Failure<ResultError<Y>>;
+}
+
+/**
+ * Async version of `gen`, for bodies that await promises of results.
+ */
+export async function genAsync<T, Y extends Failure<unknown>>(
+    body: () => AsyncGenerator<Y, T, unknown>
+): Promise<Result<T, ResultError<Y>>> {
+    const iterator = body();
+    const step = await iterator.next();
+    if (step.done) {
+        return success(step.value);
+    }
+    await iterator.return(undefined as T);
+    return step.value as Failure<ResultError<Y>>;
+}
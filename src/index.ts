@@ -4,3 +4,23 @@ export * from "./async";
 export * from "./outcome";
 export * from "./maybe";
 export * from "./types";
+export * from "./gen";
+export * from "./fluent";
+export * from "./pipe";
+export * as R from "./curried";
+export * from "./tagged";
+export * from "./context";
+export * from "./validate";
+export * from "./iterable";
+export * from "./concurrent";
+export * from "./clock";
+export * from "./retry";
+export * from "./timeout";
+export * from "./circuit-breaker";
+export * from "./bulkhead";
+export * from "./serialize";
+export * from "./schema";
+export * as D from "./decoder";
+export * from "./lookup";
+export * from "./resource";
+export * from "./promisify";
@@ -0,0 +1,154 @@
+import { isSome, Maybe } from "~/maybe";
+import { isSuccess, Result, success } from "~/result";
+import { Awaitable } from "~/types";
+
+export interface Partition<V, E> {
+    successes: V[];
+    failures: E[];
+}
+
+/** An iterable or async iterable, which is consumed with `for await` */
+export type AnyIterable<T> = Iterable<T> | AsyncIterable<T>;
+
+/**
+ * Splits results into the success values and the failure errors, in order.
+ */
+export function partition<V, E>(results: Iterable<Result<V, E>>): Partition<V, E> {
+    const successes: V[] = [];
+    const failures: E[] = [];
+    for (const result of results) {
+        if (isSuccess(result)) {
+            successes.push(result.value);
+        } else {
+            failures.push(result.error);
+        }
+    }
+    return { successes, failures };
+}
+
+/**
+ * Maps each item to a result, and collects the values like `all`.
+ * Stops at the first failure without calling `fn` on the remaining items.
+ */
+export function traverse<T, V, E>(items: Iterable<T>, fn: (item: T, index: number) => Result<V, E>): Result<V[], E> {
+    const values: V[] = [];
+    let index = 0;
+    for (const item of items) {
+        const result = fn(item, index++);
+        if (!isSuccess(result)) {
+            return result;
+        }
+        values.push(result.value);
+    }
+    return success(values);
+}
+
+/**
+ * Maps each item to a maybe, and keeps the values of the `Some` results.
+ */
+export function filterMap<T, U>(items: Iterable<T>, fn: (item: T, index: number) => Maybe<U>): U[] {
+    const values: U[] = [];
+    let index = 0;
+    for (const item of items) {
+        const maybe = fn(item, index++);
+        if (isSome(maybe)) {
+            values.push(maybe.value);
+        }
+    }
+    return values;
+}
+
+/**
+ * Reduces items with a function that might fail. Stops at the first failure.
+ */
+export function tryReduce<T, A, E>(
+    items: Iterable<T>,
+    fn: (acc: A, item: T, index: number) => Result<A, E>,
+    initial: A
+): Result<A, E> {
+    let acc = initial;
+    let index = 0;
+    for (const item of items) {
+        const result = fn(acc, item, index++);
+        if (!isSuccess(result)) {
+            return result;
+        }
+        acc = result.value;
+    }
+    return success(acc);
+}
+
+/**
+ * Async version of `partition`. Results are consumed one at a time.
+ */
+export async function partitionAsync<V, E>(results: AnyIterable<Awaitable<Result<V, E>>>): Promise<Partition<V, E>> {
+    const successes: V[] = [];
+    const failures: E[] = [];
+    for await (const result of results) {
+        if (isSuccess(result)) {
+            successes.push(result.value);
+        } else {
+            failures.push(result.error);
+        }
+    }
+    return { successes, failures };
+}
+
+/**
+ * Async version of `traverse`. Items are pulled one at a time, and the
+ * iterator is closed at the first failure without pulling the remaining items.
+ */
+export async function traverseAsync<T, V, E>(
+    items: AnyIterable<T>,
+    fn: (item: T, index: number) => Awaitable<Result<V, E>>
+): Promise<Result<V[], E>> {
+    const values: V[] = [];
+    let index = 0;
+    for await (const item of items) {
+        const result = await fn(item, index++);
+        if (!isSuccess(result)) {
+            return result;
+        }
+        values.push(result.value);
+    }
+    return success(values);
+}
+
+/**
+ * Async version of `filterMap`. Items are pulled one at a time.
+ */
+export async function filterMapAsync<T, U>(
+    items: AnyIterable<T>,
+    fn: (item: T, index: number) => Awaitable<Maybe<U>>
+): Promise<U[]> {
+    const values: U[] = [];
+    let index = 0;
+    for await (const item of items) {
+        const maybe = await fn(item, index++);
+        if (isSome(maybe)) {
+            values.push(maybe.value);
+        }
+    }
+    return values;
+}
+
+/**
+ * Async version of `tryReduce`. Items are pulled one at a time, and the
+ * iterator is closed at the first failure without pulling the remaining items.
+ */
+export async function tryReduceAsync<T, A, E>(
+    items: AnyIterable<T>,
+    fn: (acc: A, item: T, index: number) => Awaitable<Result<A, E>>,
+    initial: A
+): Promise<Result<A, E>> {
+    let acc = initial;
+    let index = 0;
+    for await (const item of items) {
+        const result = await fn(acc, item, index++);
+        if (!isSuccess(result)) {
+            return result;
+        }
+        acc = result.value;
+    }
+    return success(acc);
+}
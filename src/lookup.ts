@@ -0,0 +1,103 @@
+import { isNone, Maybe, none, some } from "~/maybe";
+
+/** The type of the value at a path of keys and indices, or `never` if a key does not exist */
+export type PathValue<T, P extends readonly PropertyKey[]> = P extends readonly [
+    infer K,
+    ...infer Rest extends readonly PropertyKey[],
+]
+    ? NonNullable<T> extends ReadonlyMap<infer MK, infer MV>
+        ? K extends MK
+            ? PathValue<MV, Rest>
+            : never
+        : K extends keyof NonNullable<T>
+          ? PathValue<NonNullable<T>[K], Rest>
+          : never
+    : T;
+
+/**
+ * Returns the element at an index, or `None` if it is out of bounds.
+ * Negative indices count back from the end, like `Array.prototype.at`.
+ */
+export function at<T>(array: ArrayLike<T>, index: number): Maybe<T> {
+    const i = index < 0 ? array.length + index : index;
+    return Number.isInteger(i) && i >= 0 && i < array.length ? some(array[i]) : none;
+}
+
+/**
+ * Returns the value of a key in a map, or `None` if the map does not have the key.
+ */
+export function get<K, V>(map: ReadonlyMap<K, V>, key: K): Maybe<V> {
+    return map.has(key) ? some(map.get(key) as V) : none;
+}
+
+/**
+ * Returns the value of an own property, or `None` if it is missing or `undefined`.
+ */
+export function prop<T extends object, K extends keyof T>(record: T, key: K): Maybe<Exclude<T[K], undefined>> {
+    const value = record[key];
+    return Object.hasOwn(record, key) && value !== undefined ? some(value as Exclude<T[K], undefined>) : none;
+}
+
+/**
+ * Returns the first item that satisfies the predicate.
+ */
+export function find<T, U extends T>(items: Iterable<T>, predicate: (item: T, index: number) => item is U): Maybe<U>;
+export function find<T>(items: Iterable<T>, predicate: (item: T, index: number) => boolean): Maybe<T>;
+export function find<T>(items: Iterable<T>, predicate: (item: T, index: number) => boolean): Maybe<T> {
+    let index = 0;
+    for (const item of items) {
+        if (predicate(item, index++)) {
+            return some(item);
+        }
+    }
+    return none;
+}
+
+export function head<T>(items: Iterable<T>): Maybe<T> {
+    for (const item of items) {
+        return some(item);
+    }
+    return none;
+}
+
+export function last<T>(items: Iterable<T>): Maybe<T> {
+    if (Array.isArray(items)) {
+        return at(items, -1);
+    }
+    let found: Maybe<T> = none;
+    for (const item of items) {
+        found = some(item);
+    }
+    return found;
+}
+
+function lookup(value: unknown, key: PropertyKey): Maybe<unknown> {
+    if (value instanceof Map) {
+        return get(value, key);
+    }
+    if (Array.isArray(value) && typeof key === "number") {
+        return at(value, key);
+    }
+    return value != null && typeof value === "object" ? prop(value, key as keyof typeof value) : none;
+}
+
+/**
+ * Follows a path of keys and indices through objects, arrays and maps.
+ * Returns `None` if any step is missing or `undefined`. The value type is inferred from the path.
+ *
+ * path(order, ["items", 0, "price"]) // Maybe<number>
+ */
+export function path<T, const P extends readonly PropertyKey[]>(
+    value: T,
+    keys: P
+): Maybe<Exclude<PathValue<T, P>, undefined>> {
+    let current: unknown = value;
+    for (const key of keys) {
+        const step = lookup(current, key);
+        if (isNone(step)) {
+            return none;
+        }
+        current = step.value;
+    }
+    return current !== undefined ? some(current as Exclude<PathValue<T, P>, undefined>) : none;
+}
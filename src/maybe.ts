@@ -1,19 +1,131 @@
-import { failure, Failure, isFailure, isSuccess, Success } from "~/result";
+import { all, failure, Failure, isFailure, isSuccess, Result, Success, ValueOf, ValuesOf } from "~/result";
+import { Fn, MatchMaybe } from "~/types";
+
+/** Marks the `none` value, so that it can be told apart from other failures, even across copies of the library */
+export const noneBrand: unique symbol = Symbol.for("@moon7/result/none");
 
 export type Maybe<T> = Some<T> | None;
 export type Some<T> = Success<T>;
-export type None = Failure<any>;
+
+/**
+ * The absence of a value. It is a failure with a `null` error, so the result combinators work on it,
+ * but only the `none` value is a `None`, not any failure.
+ */
+export interface None extends Failure<null> {
+    readonly [noneBrand]: true;
+}
 
 export function some<T>(value: T): Some<T> {
     return { value };
 }
 
-export const none: None = failure(null);
+export const none: None = Object.freeze({ error: null, [noneBrand]: true as const });
 
 export function isSome<T>(maybe: Maybe<T>): maybe is Some<T> {
     return isSuccess(maybe);
 }
 
-export function isNone<T>(maybe: Maybe<T>): maybe is None {
-    return isFailure(maybe);
+/**
+ * Checks for `none`. Other failures, including `failure(null)`, are not `None`.
+ */
+export function isNone<T = unknown>(maybe: Maybe<T> | unknown): maybe is None {
+    return isFailure(maybe as Result<unknown, unknown>) && (maybe as Partial<None>)[noneBrand] === true;
+}
+
+/**
+ * Returns all the values if every maybe is `Some`, otherwise `None`.
+ * Tuples keep the type of each position.
+ */
+export function allMaybe<T extends readonly Maybe<unknown>[] | []>(many: T): Maybe<ValuesOf<T>> {
+    const result = all(many);
+    return isSuccess(result) ? (result as Some<ValuesOf<T>>) : none;
+}
+
+/**
+ * Returns the first `Some`, otherwise `None`.
+ */
+export function anyMaybe<T extends readonly Maybe<unknown>[] | []>(many: T): Maybe<ValueOf<T>> {
+    for (const item of many) {
+        if (isSome(item)) {
+            return item as Some<ValueOf<T>>;
+        }
+    }
+    return none;
+}
+
+/**
+ * Converts a maybe to a result, with `null` or the given error when it is `None`.
+ */
+export function fromMaybe<T>(maybe: Maybe<T>): Result<T, null>;
+export function fromMaybe<T, E>(maybe: Maybe<T>, error: E): Result<T, E>;
+export function fromMaybe<T, E>(maybe: Maybe<T>, error?: E): Result<T, E | null> {
+    return isSome(maybe) ? maybe : failure(error ?? null);
+}
+
+/**
+ * Converts a result to a maybe, discarding the error.
+ */
+export function toMaybe<T, E>(result: Result<T, E>): Maybe<T> {
+    return isSuccess(result) ? result : none;
+}
+
+export function fromNullableMaybe<T>(value: T | null | undefined): Maybe<T> {
+    return value != null ? some(value) : none;
+}
+
+export function toNullable<T>(maybe: Maybe<T>): T | null {
+    return isSome(maybe) ? maybe.value : null;
+}
+
+export function toUndefined<T>(maybe: Maybe<T>): T | undefined {
+    return isSome(maybe) ? maybe.value : undefined;
+}
+
+/**
+ * Returns the value, or computes a fallback when it is `None`.
+ */
+export function getOrElse<T>(maybe: Maybe<T>, fn: Fn<T>): T {
+    return isSome(maybe) ? maybe.value : fn();
+}
+
+/**
+ * Turns a `Some` into `None` if the value does not satisfy the predicate.
+ */
+export function filterMaybe<T, U extends T>(maybe: Maybe<T>, predicate: (value: T) => value is U): Maybe<U>;
+export function filterMaybe<T>(maybe: Maybe<T>, predicate: (value: T) => boolean): Maybe<T>;
+export function filterMaybe<T>(maybe: Maybe<T>, predicate: (value: T) => boolean): Maybe<T> {
+    return isSome(maybe) && predicate(maybe.value) ? maybe : none;
+}
+
+/**
+ * Returns the maybe if it is a `Some`, otherwise computes another one.
+ */
+export function orElseMaybe<T, U>(maybe: Maybe<T>, fn: Fn<Maybe<U>>): Maybe<T | U> {
+    return isSome(maybe) ? maybe : fn();
+}
+
+/**
+ * Combines two maybes into a maybe of a pair, or `None` if either is `None`.
+ */
+export function zipMaybe<A, B>(a: Maybe<A>, b: Maybe<B>): Maybe<[A, B]> {
+    return isSome(a) && isSome(b) ? some([a.value, b.value]) : none;
+}
+
+/**
+ * Like `anyMaybe`, but each candidate is only computed if the previous ones are `None`.
+ *
+ * firstSome(() => prop(env, "PORT"), () => prop(config, "port"), () => some(8080))
+ */
+export function firstSome<T>(...candidates: Fn<Maybe<T>>[]): Maybe<T> {
+    for (const candidate of candidates) {
+        const maybe = candidate();
+        if (isSome(maybe)) {
+            return maybe;
+        }
+    }
+    return none;
+}
+
+export function matchMaybe<V, T>(maybe: Maybe<V>, patterns: MatchMaybe<V, T>): T {
+    return isSome(maybe) ? patterns.some(maybe.value) : patterns.none();
 }
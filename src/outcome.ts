@@ -1,3 +1,64 @@
+import { isSuccess, Result } from "~/result";
+import { Fn } from "~/types";
+
 export type SuccessOutcome<V> = [undefined | null, V];
-export type FailureOutcome<E> = [E, undefined];
-export type Outcome<V, E = any> = SuccessOutcome<V> | FailureOutcome<E>;
+export type FailureOutcome<E> = [NonNullable<E>, undefined];
+
+/**
+ * An `[error, value]` tuple. Checking `error == null` narrows `value` to `V`.
+ *
+ * const [error, user] = await to(fetchUser(id));
+ * if (error == null) { user.name }
+ */
+export type Outcome<V, E = unknown> = SuccessOutcome<V> | FailureOutcome<E>;
+
+/**
+ * Converts a result to an `[error, value]` tuple.
+ * A failure with a `null` or `undefined` error cannot be told apart from a success.
+ */
+export function toOutcome<V, E>(result: Result<V, E>): Outcome<V, E> {
+    return isSuccess(result) ? [undefined, result.value] : [result.error as NonNullable<E>, undefined];
+}
+
+// a null or undefined error would read as a success, so it is wrapped in an Error
+function nonNullable<E>(error: unknown): NonNullable<E> {
+    return (error ?? new Error(`Failed with ${error}`, { cause: error })) as NonNullable<E>;
+}
+
+/**
+ * Waits for a promise, and returns an `[error, value]` tuple instead of rejecting.
+ * A `null` or `undefined` rejection is returned as an `Error`, so that it is not mistaken for a success.
+ */
+export async function to<V, E = unknown>(promise: Promise<V>): Promise<Outcome<V, E>> {
+    try {
+        return [undefined, await promise];
+    } catch (error) {
+        return [nonNullable<E>(error), undefined];
+    }
+}
+
+/**
+ * Calls a function, and returns an `[error, value]` tuple instead of throwing.
+ * Returns a promise of the tuple if the function returns a promise.
+ * A thrown `null` or `undefined` is returned as an `Error`, like in `to`.
+ */
+export function outcomeOf<V, E = unknown>(fn: Fn<Promise<V>>): Promise<Outcome<V, E>>;
+export function outcomeOf<V, E = unknown>(fn: Fn<V>): Outcome<V, E>;
+export function outcomeOf<V, E = unknown>(fn: Fn<V | Promise<V>>): Outcome<V, E> | Promise<Outcome<V, E>> {
+    try {
+        const value = fn();
+        return value instanceof Promise ? to<V, E>(value) : [undefined, value];
+    } catch (error) {
+        return [nonNullable<E>(error), undefined];
+    }
+}
+
+export function mapOutcome<V, U, E>(outcome: Outcome<V, E>, fn: (value: V) => U): Outcome<U, E> {
+    const [error, value] = outcome;
+    return error == null ? [undefined, fn(value as V)] : [error, undefined];
+}
+
+export function chainOutcome<V, U, E>(outcome: Outcome<V, E>, fn: (value: V) => Outcome<U, E>): Outcome<U, E> {
+    const [error, value] = outcome;
+    return error == null ? fn(value as V) : [error, undefined];
+}
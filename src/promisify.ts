@@ -0,0 +1,101 @@
+import { failure, Result, success } from "~/result";
+import { abortedError, AbortedError } from "~/timeout";
+
+/** The value of a callback with the given success arguments: nothing, a single value, or a tuple of values */
+export type CallbackValue<R extends unknown[]> = R extends []
+    ? undefined
+    : R extends [infer V]
+      ? V
+      : R extends [(infer V)?]
+        ? V | undefined
+        : R;
+
+/** A Node-style function, with a callback that receives an error and any number of values as its last argument */
+export type NodeStyleFunction<T, A extends unknown[], E, R extends unknown[]> = (
+    this: T,
+    ...args: [...A, (error: E | null | undefined, ...values: R) => void]
+) => void;
+
+/** An event emitter such as Node's `EventEmitter` */
+export interface EventEmitterLike {
+    on(event: string | symbol, listener: (...args: unknown[]) => void): unknown;
+    off(event: string | symbol, listener: (...args: unknown[]) => void): unknown;
+}
+
+export interface OnceOptions {
+    /** The event that fails the result. Defaults to `"error"`, and `null` disables it. */
+    errorEvent?: string | symbol | null;
+    /** Stops waiting, and fails with an `AbortedError`, when aborted */
+    signal?: AbortSignal;
+}
+
+function valueOf(values: unknown[]): unknown {
+    return values.length > 1 ? values : values[0];
+}
+
+/**
+ * Turns a Node-style function into one that returns a promise of a result.
+ * Callbacks with several values resolve with a tuple of the values. Thrown errors are returned as failures,
+ * and `this` is passed through, so methods can be promisified.
+ *
+ * const query = promisifyResult(db.query);
+ * const rows = await query.call(db, "SELECT * FROM users"); // Result<Row[], DbError>
+ */
+export function promisifyResult<T, A extends unknown[], E, R extends unknown[]>(
+    fn: NodeStyleFunction<T, A, E, R>
+): (this: T, ...args: A) => Promise<Result<CallbackValue<R>, E>> {
+    return function (this: T, ...args: A) {
+        return new Promise(resolve => {
+            let settled = false;
+            const callback = (error: E | null | undefined, ...values: R) => {
+                if (!settled) {
+                    settled = true;
+                    resolve(error != null ? failure(error) : success(valueOf(values) as CallbackValue<R>));
+                }
+            };
+            try {
+                fn.call(this, ...args, callback);
+            } catch (error) {
+                settled = true;
+                resolve(failure(error as E));
+            }
+        });
+    };
+}
+
+/**
+ * Waits for an event, and succeeds with its argument, or a tuple of its arguments if there are several.
+ * Fails with the argument of the error event if it fires first.
+ *
+ * const ready = await onceResult<void, Error>(server, "listening", { signal: AbortSignal.timeout(5000) });
+ */
+export function onceResult<V = unknown, E = unknown>(
+    emitter: EventEmitterLike,
+    event: string | symbol,
+    options: OnceOptions = {}
+): Promise<Result<V, E | AbortedError>> {
+    const { errorEvent = "error", signal } = options;
+    return new Promise(resolve => {
+        if (signal?.aborted) {
+            return resolve(failure(abortedError(signal)));
+        }
+        const settle = (result: Result<V, E | AbortedError>) => {
+            emitter.off(event, onEvent);
+            if (errorEvent != null) {
+                emitter.off(errorEvent, onError);
+            }
+            signal?.removeEventListener("abort", onAbort);
+            resolve(result);
+        };
+        const onEvent = (...args: unknown[]) => settle(success(valueOf(args) as V));
+        const onError = (error: unknown) => settle(failure(error as E));
+        // only added as a listener when there is a signal
+        const onAbort = () => settle(failure(abortedError(signal as AbortSignal)));
+
+        emitter.on(event, onEvent);
+        if (errorEvent != null) {
+            emitter.on(errorEvent, onError);
+        }
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
@@ -0,0 +1,97 @@
+import { AsyncState, idle, isRefreshing, isResult, reload } from "~/async";
+import { Clock, systemClock } from "~/clock";
+import { createEmitter } from "~/emitter";
+import { flatten, isSuccess, Result } from "~/result";
+import { AbortedError, withSignal } from "~/timeout";
+import { Awaitable } from "~/types";
+
+/** Fetches the data of a resource. The signal is aborted when the request is cancelled or superseded. */
+export type ResourceFetcher<V, E> = (signal: AbortSignal) => Awaitable<Result<V, E>>;
+
+export interface ResourceOptions {
+    /** How long a success is fresh, in milliseconds. `load` returns fresh successes without fetching. Defaults to 0. */
+    staleTime?: number;
+    clock?: Clock;
+}
+
+/**
+ * An observable `AsyncState`, compatible with React's `useSyncExternalStore` and other stores.
+ */
+export interface Resource<V, E> {
+    /** Returns the current state. It is the same object until the state changes. */
+    getSnapshot(): AsyncState<V, E>;
+    /** Calls the listener when the state changes, and returns a function that unsubscribes it. Errors thrown by listeners are ignored. */
+    subscribe(listener: () => void): () => void;
+    /** Fetches unless there is a fresh success or a request in flight, in which case it returns that */
+    load(): Promise<Result<V, E | AbortedError>>;
+    /** Fetches again, aborting the request in flight */
+    refetch(): Promise<Result<V, E | AbortedError>>;
+    /** Aborts the request in flight, and goes back to the previous result, or to `idle` */
+    cancel(): void;
+}
+
+/**
+ * Creates a resource that drives an `AsyncState` through its states as it fetches.
+ * Requests that are cancelled or superseded never overwrite the state.
+ *
+ * const user = createResource(signal => fromTryAsync(() => api.getUser(id, { signal })), { staleTime: 30_000 });
+ * const state = useSyncExternalStore(user.subscribe, user.getSnapshot);
+ */
+export function createResource<V, E>(fetcher: ResourceFetcher<V, E>, options: ResourceOptions = {}): Resource<V, E> {
+    const { staleTime = 0, clock = systemClock } = options;
+    const events = createEmitter<{ change: () => void }>();
+    let state: AsyncState<V, E> = idle;
+    let fetchedAt = -Infinity;
+    let inflight: { controller: AbortController; promise: Promise<Result<V, E | AbortedError>> } | undefined;
+
+    const setState = (next: AsyncState<V, E>) => {
+        state = next;
+        events.emit("change");
+    };
+
+    const abort = () => {
+        const current = inflight;
+        inflight = undefined;
+        current?.controller.abort();
+    };
+
+    const start = () => {
+        abort();
+        const controller = new AbortController();
+        const promise = withSignal<Result<V, E>, E>(signal => fetcher(signal), controller.signal).then(result => {
+            const flattened = flatten(result);
+            // results of cancelled or superseded requests are ignored
+            if (inflight?.controller === controller) {
+                inflight = undefined;
+                fetchedAt = clock.now();
+                setState(flattened as Result<V, E>);
+            }
+            return flattened;
+        });
+        inflight = { controller, promise };
+        setState(reload(state));
+        return promise;
+    };
+
+    return {
+        getSnapshot: () => state,
+        subscribe: listener => events.on("change", listener),
+        load() {
+            if (inflight) {
+                return inflight.promise;
+            }
+            // failures are never fresh, so they are fetched again
+            if (isResult<V, E>(state) && isSuccess(state) && clock.now() - fetchedAt < staleTime) {
+                return Promise.resolve(state);
+            }
+            return start();
+        },
+        refetch: start,
+        cancel() {
+            if (inflight) {
+                abort();
+                setState(isRefreshing(state) ? state.previous : idle);
+            }
+        },
+    };
+}
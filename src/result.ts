@@ -1,5 +1,5 @@
 import { Outcome } from "~/outcome";
-import { Match, NodeCallback, Recover } from "~/types";
+import { Awaitable, Match, NodeCallback, Recover } from "~/types";
 
 export interface Success<V> {
     readonly value: V;
@@ -11,6 +11,29 @@ export interface Failure<E> {
 
 export type Result<V, E = any> = Success<V> | Failure<E>;
 
+/** Extracts the success value type of a result type */
+export type ResultValue<R> = R extends Success<infer V> ? V : never;
+
+/** Extracts the failure error type of a result type */
+export type ResultError<R> = R extends Failure<infer E> ? E : never;
+
+/** Extracts the failure types of a result type, so that combinators can pass them through unchanged, e.g. `None` */
+export type FailureOf<R> = Extract<R, Failure<unknown>>;
+
+type AnyResult = Result<unknown, unknown>;
+
+/** Maps a tuple, array or record of results to the same shape of values */
+export type ValuesOf<T> = { -readonly [K in keyof T]: ResultValue<T[K]> };
+
+/** Maps a tuple, array or record of results to the same shape of errors */
+export type ErrorListOf<T> = { -readonly [K in keyof T]: ResultError<T[K]> };
+
+/** The union of the value types of a tuple, array or record of results */
+export type ValueOf<T> = T extends readonly unknown[] ? ResultValue<T[number]> : ResultValue<T[keyof T]>;
+
+/** The union of the error types of a tuple, array or record of results */
+export type ErrorsOf<T> = T extends readonly unknown[] ? ResultError<T[number]> : ResultError<T[keyof T]>;
+
 export function isSuccess<V, E>(result: Result<V, E>): result is Success<V> {
     return result != null && typeof result === "object" && "value" in result;
 }
@@ -102,11 +125,17 @@ export function fromOutcome<V, E>(outcome: Outcome<V, E>): Result<V, E> {
     if (error != null) {
         return failure(error);
     }
-    return success(value!);
+    return success(value as V);
 }
 
-export function all<V, E>(many: Result<V, E>[]): Result<V[], E> {
-    const values: V[] = [];
+/**
+ * Succeeds with all the values if all results succeed, or fails with the first failure.
+ * Tuples keep the type of each position.
+ */
+export function all<T extends readonly Result<unknown, unknown>[] | []>(many: T): Result<ValuesOf<T>, ErrorsOf<T>>;
+export function all<V, E>(many: Iterable<Result<V, E>>): Result<V[], E>;
+export function all(many: Iterable<Result<unknown, unknown>>): Result<unknown, unknown> {
+    const values: unknown[] = [];
     for (const item of many) {
         if (!isSuccess(item)) {
             return item;
@@ -116,8 +145,14 @@ export function all<V, E>(many: Result<V, E>[]): Result<V[], E> {
     return success(values);
 }
 
-export function any<V, E>(many: Result<V, E>[]): Result<V, E[]> {
-    const errors: E[] = [];
+/**
+ * Succeeds with the first success, or fails with all the errors if all results fail.
+ * Tuples keep the type of each position.
+ */
+export function any<T extends readonly Result<unknown, unknown>[] | []>(many: T): Result<ValueOf<T>, ErrorListOf<T>>;
+export function any<V, E>(many: Iterable<Result<V, E>>): Result<V, E[]>;
+export function any(many: Iterable<Result<unknown, unknown>>): Result<unknown, unknown> {
+    const errors: unknown[] = [];
     for (const item of many) {
         if (isSuccess(item)) {
             return item;
@@ -127,14 +162,235 @@ export function any<V, E>(many: Result<V, E>[]): Result<V, E[]> {
     return failure(errors);
 }
 
+/**
+ * Like `all`, for a record of results.
+ *
+ * allRecord({ user: loadUser(id), prefs: loadPrefs(id) }); // Result<{ user: User; prefs: Prefs }, ...>
+ */
+export function allRecord<T extends Record<string, Result<unknown, unknown>>>(
+    many: T
+): Result<ValuesOf<T>, ErrorsOf<T>> {
+    const values: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(many)) {
+        if (!isSuccess(item)) {
+            return item as Failure<ErrorsOf<T>>;
+        }
+        values[key] = item.value;
+    }
+    return success(values as ValuesOf<T>);
+}
+
+/**
+ * Like `any`, for a record of results.
+ */
+export function anyRecord<T extends Record<string, Result<unknown, unknown>>>(
+    many: T
+): Result<ValueOf<T>, ErrorListOf<T>> {
+    const errors: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(many)) {
+        if (isSuccess(item)) {
+            return item as Success<ValueOf<T>>;
+        }
+        errors[key] = item.error;
+    }
+    return failure(errors as ErrorListOf<T>);
+}
+
 export function match<V, E, T>(result: Result<V, E>, patterns: Match<V, E, T>): T {
     return isSuccess(result) ? patterns.success(result.value) : patterns.failure(result.error);
 }
 
+export function map<R extends AnyResult, U>(result: R, fn: (value: ResultValue<R>) => U): Success<U> | FailureOf<R>;
+export function map<V, U, E>(result: Result<V, E>, fn: (value: V) => U): Result<U, E>;
 export function map<V, U, E>(result: Result<V, E>, fn: (value: V) => U): Result<U, E> {
     return isSuccess(result) ? success(fn(result.value)) : result;
 }
 
+export function chain<R extends AnyResult, S extends AnyResult>(
+    result: R,
+    fn: (value: ResultValue<R>) => S
+): S | FailureOf<R>;
+export function chain<V, U, E>(result: Result<V, E>, fn: (value: V) => Result<U, E>): Result<U, E>;
 export function chain<V, U, E>(result: Result<V, E>, fn: (value: V) => Result<U, E>): Result<U, E> {
     return isSuccess(result) ? fn(result.value) : result;
 }
+
+export function mapError<V, E, F>(result: Result<V, E>, fn: (error: E) => F): Result<V, F> {
+    return isSuccess(result) ? result : failure(fn(result.error));
+}
+
+export function bimap<V, E, U, F>(
+    result: Result<V, E>,
+    onSuccess: (value: V) => U,
+    onFailure: (error: E) => F
+): Result<U, F> {
+    return isSuccess(result) ? success(onSuccess(result.value)) : failure(onFailure(result.error));
+}
+
+/**
+ * Runs a side effect on a success value, and returns the original result.
+ */
+export function tap<R extends AnyResult>(result: R, fn: (value: ResultValue<R>) => void): R;
+export function tap<V, E>(result: Result<V, E>, fn: (value: V) => void): Result<V, E>;
+export function tap<V, E>(result: Result<V, E>, fn: (value: V) => void): Result<V, E> {
+    if (isSuccess(result)) {
+        fn(result.value);
+    }
+    return result;
+}
+
+/**
+ * Runs a side effect on a failure error, and returns the original result.
+ */
+export function tapError<R extends AnyResult>(result: R, fn: (error: ResultError<R>) => void): R;
+export function tapError<V, E>(result: Result<V, E>, fn: (error: E) => void): Result<V, E>;
+export function tapError<V, E>(result: Result<V, E>, fn: (error: E) => void): Result<V, E> {
+    if (isFailure(result)) {
+        fn(result.error);
+    }
+    return result;
+}
+
+/**
+ * Maps a failure to another result, preserves success.
+ */
+export function orElse<V, E, F>(result: Result<V, E>, fn: (error: E) => Result<V, F>): Result<V, F> {
+    return isSuccess(result) ? result : fn(result.error);
+}
+
+export function flatten<R extends Result<AnyResult, unknown>>(result: R): ResultValue<R> | FailureOf<R>;
+export function flatten<V, E, F>(result: Result<Result<V, E>, F>): Result<V, E | F>;
+export function flatten<V, E, F>(result: Result<Result<V, E>, F>): Result<V, E | F> {
+    return isSuccess(result) ? result.value : result;
+}
+
+/**
+ * Turns a success into a failure, and a failure into a success.
+ */
+export function swap<V, E>(result: Result<V, E>): Result<E, V> {
+    return isSuccess(result) ? failure(result.value) : success(result.error);
+}
+
+/**
+ * Turns a success into a failure if the value does not satisfy the predicate.
+ * A `None` passes through, but the new failure is not a `None`; use `filterMaybe` for that.
+ */
+export function filter<R extends AnyResult, U extends ResultValue<R>, F>(
+    result: R,
+    predicate: (value: ResultValue<R>) => value is U,
+    error: (value: ResultValue<R>) => F
+): Success<U> | FailureOf<R> | Failure<F>;
+export function filter<R extends AnyResult, F>(
+    result: R,
+    predicate: (value: ResultValue<R>) => boolean,
+    error: (value: ResultValue<R>) => F
+): Success<ResultValue<R>> | FailureOf<R> | Failure<F>;
+export function filter<V, U extends V, E, F>(
+    result: Result<V, E>,
+    predicate: (value: V) => value is U,
+    error: (value: V) => F
+): Result<U, E | F>;
+export function filter<V, E, F>(
+    result: Result<V, E>,
+    predicate: (value: V) => boolean,
+    error: (value: V) => F
+): Result<V, E | F>;
+export function filter<V, E, F>(
+    result: Result<V, E>,
+    predicate: (value: V) => boolean,
+    error: (value: V) => F
+): Result<V, E | F> {
+    if (isSuccess(result) && !predicate(result.value)) {
+        return failure(error(result.value));
+    }
+    return result;
+}
+
+/**
+ * Combines two results into a result of a pair, or the first failure.
+ */
+export function zip<A extends AnyResult, B extends AnyResult>(
+    a: A,
+    b: B
+): Success<[ResultValue<A>, ResultValue<B>]> | FailureOf<A> | FailureOf<B>;
+export function zip<V, U, E, F>(a: Result<V, E>, b: Result<U, F>): Result<[V, U], E | F>;
+export function zip<V, U, E, F>(a: Result<V, E>, b: Result<U, F>): Result<[V, U], E | F> {
+    return zipWith(a, b, (x, y): [V, U] => [x, y]);
+}
+
+export function zipWith<V, U, T, E, F>(a: Result<V, E>, b: Result<U, F>, fn: (a: V, b: U) => T): Result<T, E | F> {
+    if (!isSuccess(a)) {
+        return a;
+    }
+    if (!isSuccess(b)) {
+        return b;
+    }
+    return success(fn(a.value, b.value));
+}
+
+/**
+ * Returns `b` if `a` is a success, otherwise returns the failure `a`.
+ */
+export function and<A extends AnyResult, B extends AnyResult>(a: A, b: B): B | FailureOf<A>;
+export function and<V, U, E, F>(a: Result<V, E>, b: Result<U, F>): Result<U, E | F>;
+export function and<V, U, E, F>(a: Result<V, E>, b: Result<U, F>): Result<U, E | F> {
+    return isSuccess(a) ? b : a;
+}
+
+/**
+ * Returns `a` if it is a success, otherwise returns `b`.
+ */
+export function or<A extends AnyResult, B extends AnyResult>(a: A, b: B): Extract<A, Success<unknown>> | B;
+export function or<V, U, E, F>(a: Result<V, E>, b: Result<U, F>): Result<V | U, F>;
+export function or<V, U, E, F>(a: Result<V, E>, b: Result<U, F>): Result<V | U, F> {
+    return isSuccess(a) ? a : b;
+}
+
+export async function mapAsync<V, U, E>(
+    result: Awaitable<Result<V, E>>,
+    fn: (value: V) => Awaitable<U>
+): Promise<Result<U, E>> {
+    const resolved = await result;
+    return isSuccess(resolved) ? success(await fn(resolved.value)) : resolved;
+}
+
+export async function chainAsync<V, U, E>(
+    result: Awaitable<Result<V, E>>,
+    fn: (value: V) => Awaitable<Result<U, E>>
+): Promise<Result<U, E>> {
+    const resolved = await result;
+    return isSuccess(resolved) ? fn(resolved.value) : resolved;
+}
+
+/**
+ * Runs a side effect on a success value, and waits for it before returning the original result.
+ */
+export async function tapAsync<V, E>(
+    result: Awaitable<Result<V, E>>,
+    fn: (value: V) => Awaitable<unknown>
+): Promise<Result<V, E>> {
+    const resolved = await result;
+    if (isSuccess(resolved)) {
+        await fn(resolved.value);
+    }
+    return resolved;
+}
+
+/**
+ * Maps a failure to another result, preserves success.
+ */
+export async function orElseAsync<V, E, F>(
+    result: Awaitable<Result<V, E>>,
+    fn: (error: E) => Awaitable<Result<V, F>>
+): Promise<Result<V, F>> {
+    const resolved = await result;
+    return isSuccess(resolved) ? resolved : fn(resolved.error);
+}
+
+export async function recoverAsync<V, E>(
+    result: Awaitable<Result<V, E>>,
+    fn: (error: E) => Awaitable<V>
+): Promise<Success<V>> {
+    const resolved = await result;
+    return isSuccess(resolved) ? resolved : success(await fn(resolved.error));
+}
@@ -0,0 +1,107 @@
+import { Clock, systemClock } from "~/clock";
+import { failure, flatten, fromPromise, fromTryAsync, isFailure, isSuccess, Result } from "~/result";
+import { defineError } from "~/tagged";
+import { Awaitable } from "~/types";
+
+/** Returns the delay in milliseconds before the next attempt, given the attempt that just failed */
+export type Backoff = (attempt: number) => number;
+
+export interface RetryPolicy<E> {
+    /** The maximum number of attempts, including the first one. Defaults to 3. */
+    maxAttempts?: number;
+    /** Stops retrying if the next attempt would start after this many milliseconds. */
+    maxElapsed?: number;
+    /** The delay between attempts. Defaults to no delay. */
+    backoff?: Backoff;
+    /** Decides if a failed attempt should be retried. Defaults to retrying every failure. */
+    shouldRetry?: (error: E, attempt: number) => boolean;
+    clock?: Clock;
+    /** Stops retrying when aborted. It is also passed to the operation. */
+    signal?: AbortSignal;
+}
+
+export interface ExponentialOptions {
+    initial?: number;
+    factor?: number;
+    max?: number;
+}
+
+export interface LinearOptions {
+    initial?: number;
+    step?: number;
+    max?: number;
+}
+
+/**
+ * The failure of `retry`, with the errors of every attempt in order.
+ */
+export class RetryError<E = unknown> extends defineError("RetryError")<{ errors: E[] }> {}
+
+export function constantBackoff(ms: number): Backoff {
+    return () => ms;
+}
+
+/** `initial`, `initial * factor`, `initial * factor^2`, ... up to `max` */
+export function exponentialBackoff({ initial = 100, factor = 2, max = Infinity }: ExponentialOptions = {}): Backoff {
+    return attempt => Math.min(initial * factor ** (attempt - 1), max);
+}
+
+/** `initial`, `initial + step`, `initial + step * 2`, ... up to `max` */
+export function linearBackoff({ initial = 100, step = initial, max = Infinity }: LinearOptions = {}): Backoff {
+    return attempt => Math.min(initial + step * (attempt - 1), max);
+}
+
+/**
+ * Randomizes a backoff between zero and its delay, so that clients retrying at the same time spread out.
+ */
+export function jittered(backoff: Backoff, random: () => number = Math.random): Backoff {
+    return attempt => Math.round(backoff(attempt) * random());
+}
+
+/**
+ * Runs a Result-returning operation until it succeeds, following the policy.
+ * Thrown errors and rejections count as failures. If every attempt fails,
+ * fails with a `RetryError` that has the error of every attempt.
+ *
+ * const user = await retry(() => fromTryAsync(() => fetchUser(id)), {
+ *     maxAttempts: 5,
+ *     backoff: jittered(exponentialBackoff({ initial: 200 })),
+ *     shouldRetry: error => error.status >= 500,
+ * });
+ */
+export async function retry<V, E>(
+    fn: (attempt: number, signal?: AbortSignal) => Awaitable<Result<V, E>>,
+    policy: RetryPolicy<E> = {}
+): Promise<Result<V, RetryError<E>>> {
+    const {
+        maxAttempts = 3,
+        maxElapsed = Infinity,
+        backoff = constantBackoff(0),
+        shouldRetry = () => true,
+        clock = systemClock,
+        signal,
+    } = policy;
+    const start = clock.now();
+    const errors: E[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+        const result = flatten(await fromTryAsync<Result<V, E>, E>(() => fn(attempt, signal)));
+        if (isSuccess(result)) {
+            return result;
+        }
+        errors.push(result.error);
+        if (attempt >= maxAttempts || signal?.aborted || !shouldRetry(result.error, attempt)) {
+            break;
+        }
+        const delay = backoff(attempt);
+        if (clock.now() - start + delay > maxElapsed) {
+            break;
+        }
+        if (isFailure(await fromPromise(clock.sleep(delay, signal)))) {
+            break;
+        }
+    }
+
+    const message = `Failed after ${errors.length} ${errors.length === 1 ? "attempt" : "attempts"}`;
+    return failure(new RetryError<E>({ message, errors, cause: errors[errors.length - 1] }));
+}
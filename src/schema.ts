@@ -0,0 +1,67 @@
+import { failure, Result, success } from "~/result";
+import { PathSegment } from "~/validate";
+
+// The Standard Schema v1 interface (https://standardschema.dev), typed structurally so that
+// schemas from any library that implements it can be used without depending on it.
+
+export interface StandardSchema<Input = unknown, Output = Input> {
+    readonly "~standard": {
+        readonly version: 1;
+        readonly vendor: string;
+        readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+        readonly types?: { readonly input: Input; readonly output: Output };
+    };
+}
+
+export type StandardSchemaResult<Output> =
+    | { readonly value: Output; readonly issues?: undefined }
+    | { readonly issues: readonly SchemaIssue[] };
+
+export interface SchemaIssue {
+    readonly message: string;
+    readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[];
+}
+
+/** The type of the values a schema accepts */
+export type SchemaInput<S extends StandardSchema> = NonNullable<S["~standard"]["types"]>["input"];
+
+/** The type of the values a schema produces */
+export type SchemaOutput<S extends StandardSchema> = NonNullable<S["~standard"]["types"]>["output"];
+
+function toResult<Output>(result: StandardSchemaResult<Output>): Result<Output, SchemaIssue[]> {
+    return result.issues ? failure([...result.issues]) : success(result.value);
+}
+
+/**
+ * Validates a value with a Standard Schema, such as a Zod, Valibot or ArkType schema.
+ * Returns a promise only if the schema validates asynchronously. Issues are returned as is, with their paths.
+ *
+ * const user = fromSchema(UserSchema, await request.json()); // Result<User, SchemaIssue[]>
+ */
+export function fromSchema<S extends StandardSchema>(
+    schema: S,
+    input: unknown
+): Result<SchemaOutput<S>, SchemaIssue[]> | Promise<Result<SchemaOutput<S>, SchemaIssue[]>> {
+    const result = schema["~standard"].validate(input);
+    return result instanceof Promise ? result.then(toResult) : toResult(result);
+}
+
+/**
+ * Like `fromSchema`, but always returns a promise, for schemas that may validate asynchronously.
+ */
+export async function fromSchemaAsync<S extends StandardSchema>(
+    schema: S,
+    input: unknown
+): Promise<Result<SchemaOutput<S>, SchemaIssue[]>> {
+    return toResult(await schema["~standard"].validate(input));
+}
+
+/**
+ * Returns the path of an issue as keys and indices, to use with `formatPath`.
+ */
+export function issuePath(issue: SchemaIssue): PathSegment[] {
+    return (issue.path ?? []).map(segment => {
+        const key = typeof segment === "object" ? segment.key : segment;
+        return typeof key === "symbol" ? key.toString() : key;
+    });
+}
@@ -0,0 +1,196 @@
+import { AsyncResult, isPending, pending } from "~/async";
+import { isNone, none } from "~/maybe";
+import { failure, isSuccess, success } from "~/result";
+
+/**
+ * The wire format of a result. `none` and `pending` have no payload.
+ * Values and errors are encoded with `SerializedError` for errors,
+ * and plain objects that have a `$type` key are wrapped in `{ $type: "object", value }`.
+ */
+export type SerializedResult =
+    | { $type: "success"; value: unknown }
+    | { $type: "failure"; error: unknown }
+    | { $type: "none" }
+    | { $type: "pending" };
+
+export interface SerializedError {
+    $type: "error";
+    name: string;
+    message: string;
+    stack?: string;
+    cause?: unknown;
+    /** Own properties other than name, message, stack and cause */
+    fields?: Record<string, unknown>;
+}
+
+/** Error classes by error name, used to revive errors as instances of their class */
+export type ErrorRegistry = Record<string, abstract new (...args: never[]) => Error>;
+
+export interface ReviveOptions {
+    /** Custom error classes. Standard errors such as `TypeError` are always revived with their class. */
+    errors?: ErrorRegistry;
+}
+
+const standardErrors: ErrorRegistry = {
+    Error,
+    EvalError,
+    RangeError,
+    ReferenceError,
+    SyntaxError,
+    TypeError,
+    URIError,
+    AggregateError,
+};
+
+const errorKeys = new Set(["name", "message", "stack", "cause"]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (value == null || typeof value !== "object") {
+        return false;
+    }
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+}
+
+function encode(value: unknown, seen: Set<object>): unknown {
+    if (value == null || typeof value !== "object") {
+        return value;
+    }
+    // cycles are dropped, like in errorChain
+    if (seen.has(value)) {
+        return undefined;
+    }
+    seen.add(value);
+    try {
+        if (value instanceof Error) {
+            const encoded: SerializedError = { $type: "error", name: value.name, message: value.message };
+            if (value.stack !== undefined) {
+                encoded.stack = value.stack;
+            }
+            if ("cause" in value) {
+                encoded.cause = encode(value.cause, seen);
+            }
+            const fields = Object.getOwnPropertyNames(value).filter(key => !errorKeys.has(key));
+            if (fields.length > 0) {
+                encoded.fields = Object.fromEntries(
+                    fields.map(key => [key, encode((value as unknown as Record<string, unknown>)[key], seen)])
+                );
+            }
+            return encoded;
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => encode(item, seen));
+        }
+        if (isPlainObject(value)) {
+            const entries = Object.entries(value).map(([key, item]) => [key, encode(item, seen)]);
+            const encoded = Object.fromEntries(entries);
+            return "$type" in value ? { $type: "object", value: encoded } : encoded;
+        }
+        // other objects, such as dates, are left to JSON.stringify
+        return value;
+    } finally {
+        seen.delete(value);
+    }
+}
+
+function decode(value: unknown, registry: ErrorRegistry): unknown {
+    if (Array.isArray(value)) {
+        return value.map(item => decode(item, registry));
+    }
+    if (!isPlainObject(value)) {
+        return value;
+    }
+    if (value.$type === "error") {
+        return decodeError(value as unknown as SerializedError, registry);
+    }
+    const object = value.$type === "object" ? (value.value as Record<string, unknown>) : value;
+    return Object.fromEntries(Object.entries(object).map(([key, item]) => [key, decode(item, registry)]));
+}
+
+function decodeError(encoded: SerializedError, registry: ErrorRegistry): Error {
+    // creates a native error with the prototype of the class, without calling its constructor,
+    // since custom error classes can have any signature.
+    // The name comes from the wire, so only own properties of the registry are looked up
+    const Class = Object.hasOwn(registry, encoded.name) ? registry[encoded.name] : Error;
+    const error: Error = Reflect.construct(Error, [encoded.message], Class);
+    const define = (key: string, value: unknown) =>
+        Object.defineProperty(error, key, { value, writable: true, enumerable: false, configurable: true });
+    if (error.name !== encoded.name) {
+        define("name", encoded.name);
+    }
+    if (encoded.stack !== undefined) {
+        define("stack", encoded.stack);
+    }
+    if ("cause" in encoded) {
+        define("cause", decode(encoded.cause, registry));
+    }
+    for (const [key, value] of Object.entries(encoded.fields ?? {})) {
+        Object.defineProperty(error, key, {
+            value: decode(value, registry),
+            writable: true,
+            enumerable: true,
+            configurable: true,
+        });
+    }
+    return error;
+}
+
+/**
+ * Converts a result, maybe or async result into the JSON-compatible wire format.
+ * Unlike `JSON.stringify` on a result, errors keep their name, message, stack, cause and custom fields.
+ */
+export function toJSON<V, E>(result: AsyncResult<V, E>): SerializedResult {
+    if (isPending(result)) {
+        return { $type: "pending" };
+    }
+    if (isSuccess(result)) {
+        return { $type: "success", value: encode(result.value, new Set()) };
+    }
+    if (isNone(result)) {
+        return { $type: "none" };
+    }
+    return { $type: "failure", error: encode(result.error, new Set()) };
+}
+
+export function serializeResult<V, E>(result: AsyncResult<V, E>): string {
+    return JSON.stringify(toJSON(result));
+}
+
+/**
+ * Converts the wire format back into a result, maybe or async result.
+ * Errors are revived as instances of their class if it is in the registry, otherwise as `Error`.
+ * The expected type is not checked, like `JSON.parse`. Throws a `TypeError` if the input is not in the wire format.
+ *
+ * const result = parseResult<Result<User, NotFound>>(text, { errors: { NotFound } });
+ */
+export function reviveResult<T extends AsyncResult<unknown, unknown> = AsyncResult<unknown, unknown>>(
+    json: unknown,
+    options: ReviveOptions = {}
+): T {
+    const registry = { ...standardErrors, ...options.errors };
+    if (!isSerializedResult(json)) {
+        throw new TypeError("Invalid serialized result");
+    }
+    switch (json.$type) {
+        case "success":
+            return success(decode(json.value, registry)) as T;
+        case "failure":
+            return failure(decode(json.error, registry)) as T;
+        case "none":
+            return none as AsyncResult<unknown, unknown> as T;
+        case "pending":
+            return pending as T;
+    }
+}
+
+export function parseResult<T extends AsyncResult<unknown, unknown> = AsyncResult<unknown, unknown>>(
+    text: string,
+    options?: ReviveOptions
+): T {
+    return reviveResult(JSON.parse(text), options);
+}
+
+/** Whether a value is a result in the wire format */
+export function isSerializedResult(value: unknown): value is SerializedResult {
+    return isPlainObject(value) && ["success", "failure", "none", "pending"].includes(value.$type as string);
+}
@@ -0,0 +1,109 @@
+import { assertNever } from "~/error";
+import { isFailure, Result, ResultError, ResultValue } from "~/result";
+
+export interface TaggedError<Tag extends string = string> extends Error {
+    readonly _tag: Tag;
+}
+
+/** Options that are passed to the `Error` constructor instead of being assigned as fields */
+export interface TaggedErrorOptions {
+    message?: string;
+    cause?: unknown;
+}
+
+export type TaggedErrorConstructor<Tag extends string> = new <P extends object = {}>(
+    ...args: {} extends P ? [props?: P & TaggedErrorOptions] : [props: P & TaggedErrorOptions]
+) => TaggedError<Tag> & Readonly<P>;
+
+/** Extracts the tags of the tagged errors in a union */
+export type TagOf<E> = E extends { readonly _tag: infer Tag extends string } ? Tag : never;
+
+/** Narrows a union of errors to the ones with the given tag */
+export type WithTag<E, Tag> = Extract<E, { readonly _tag: Tag }>;
+
+/** Removes the errors with the given tags from a union */
+export type WithoutTag<E, Tag> = Exclude<E, { readonly _tag: Tag }>;
+
+export type CatchTagHandlers<E> = {
+    [Tag in TagOf<E>]?: (error: WithTag<E, Tag>) => Result<unknown, unknown>;
+};
+
+export type MatchErrorHandlers<E extends { readonly _tag: string }, T> = {
+    [Tag in E["_tag"]]: (error: WithTag<E, Tag>) => T;
+};
+
+type HandlerResult<H> = {
+    [K in keyof H]: H[K] extends (...args: never[]) => infer R ? R : never;
+}[keyof H];
+
+/**
+ * Creates an Error class with a literal `_tag` discriminant.
+ *
+ * class NotFound extends defineError("NotFound")<{ id: string }> {}
+ * const error = new NotFound({ id: "42", message: "User not found" });
+ */
+export function defineError<Tag extends string>(tag: Tag): TaggedErrorConstructor<Tag> {
+    class Tagged extends Error {
+        readonly _tag: Tag = tag;
+
+        constructor(props?: TaggedErrorOptions & Record<string, unknown>) {
+            const { message, cause, ...fields } = props ?? {};
+            super(message, cause !== undefined ? { cause } : undefined);
+            Object.assign(this, fields);
+            this.name = tag;
+        }
+    }
+    return Tagged as unknown as TaggedErrorConstructor<Tag>;
+}
+
+export function isTaggedError<Tag extends string>(error: unknown, tag?: Tag): error is TaggedError<Tag> {
+    return (
+        error instanceof Error &&
+        typeof (error as TaggedError)._tag === "string" &&
+        (tag === undefined || (error as TaggedError)._tag === tag)
+    );
+}
+
+function hasTag(error: unknown): error is { readonly _tag: string } {
+    return error != null && typeof error === "object" && typeof (error as { _tag?: unknown })._tag === "string";
+}
+
+/**
+ * Handles failures with the given tag, removing it from the error type.
+ */
+export function catchTag<V, E, Tag extends TagOf<E>, U, F = never>(
+    result: Result<V, E>,
+    tag: Tag,
+    handler: (error: WithTag<E, Tag>) => Result<U, F>
+): Result<V | U, WithoutTag<E, Tag> | F> {
+    if (isFailure(result) && hasTag(result.error) && result.error._tag === tag) {
+        return handler(result.error as WithTag<E, Tag>);
+    }
+    return result as Result<V, WithoutTag<E, Tag>>;
+}
+
+/**
+ * Handles failures with any of the given tags, removing them from the error type.
+ */
+export function catchTags<V, E, H extends CatchTagHandlers<E>>(
+    result: Result<V, E>,
+    handlers: H
+): Result<V | ResultValue<HandlerResult<H>>, WithoutTag<E, keyof H> | ResultError<HandlerResult<H>>> {
+    if (isFailure(result) && hasTag(result.error) && Object.hasOwn(handlers, result.error._tag)) {
+        const handler = handlers[result.error._tag as keyof H] as (error: E) => Result<unknown, unknown>;
+        return handler(result.error) as Result<ResultValue<HandlerResult<H>>, ResultError<HandlerResult<H>>>;
+    }
+    return result as Result<V, WithoutTag<E, keyof H>>;
+}
+
+/**
+ * Calls the handler for the tag of the error. Every tag must be handled,
+ * so adding a new error to the union is a compile-time error until it is handled.
+ */
+export function matchError<E extends { readonly _tag: string }, T>(error: E, handlers: MatchErrorHandlers<E, T>): T {
+    const tag: E["_tag"] = error._tag;
+    if (!Object.hasOwn(handlers, tag)) {
+        return assertNever(error as never);
+    }
+    return handlers[tag](error as WithTag<E, typeof tag>);
+}
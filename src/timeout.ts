@@ -0,0 +1,79 @@
+import { Clock, systemClock } from "~/clock";
+import { failure, Failure, fromTryAsync, isFailure, Result } from "~/result";
+import { defineError } from "~/tagged";
+import { Awaitable } from "~/types";
+
+/** An operation that receives a signal, which is aborted when the result is no longer needed */
+export type Abortable<V> = (signal: AbortSignal) => Awaitable<V>;
+
+export interface TimeoutOptions {
+    clock?: Clock;
+}
+
+export class TimeoutError extends defineError("TimeoutError")<{ ms: number }> {}
+
+/** The failure of an operation that was aborted. The abort reason is its `cause`. */
+export class AbortedError extends defineError("AbortedError") {}
+
+/** Creates the `AbortedError` for an aborted signal */
+export function abortedError(signal: AbortSignal): AbortedError {
+    return new AbortedError({ message: "The operation was aborted", cause: signal.reason });
+}
+
+/**
+ * Like `fromPromise`, but fails with a `TimeoutError` if the operation takes longer than `ms`.
+ * When given a function, the signal passed to it is aborted on timeout.
+ *
+ * const response = await withTimeout(signal => fetch(url, { signal }), 5000);
+ */
+export async function withTimeout<V, E>(
+    operation: Promise<V> | Abortable<V>,
+    ms: number,
+    options: TimeoutOptions = {}
+): Promise<Result<V, E | TimeoutError>> {
+    const { clock = systemClock } = options;
+    const controller = new AbortController();
+    const cleanup = new AbortController();
+    const timeout = new TimeoutError({ message: `Timed out after ${ms}ms`, ms });
+    const timer = clock.sleep(ms, cleanup.signal).then(
+        () => {
+            controller.abort(timeout);
+            return failure(timeout);
+        },
+        // only rejects when cleaned up, after the race is settled
+        () => failure(timeout)
+    );
+    try {
+        return await Promise.race([
+            fromTryAsync<V, E>(() => (typeof operation === "function" ? operation(controller.signal) : operation)),
+            timer,
+        ]);
+    } finally {
+        cleanup.abort();
+    }
+}
+
+/**
+ * Runs an operation with a signal, and fails with an `AbortedError` when the signal is aborted,
+ * instead of waiting for the operation or rejecting.
+ */
+export async function withSignal<V, E>(fn: Abortable<V>, signal: AbortSignal): Promise<Result<V, E | AbortedError>> {
+    if (signal.aborted) {
+        return failure(abortedError(signal));
+    }
+    let onAbort!: () => void;
+    const aborted = new Promise<Failure<AbortedError>>(resolve => {
+        onAbort = () => resolve(failure(abortedError(signal)));
+        signal.addEventListener("abort", onAbort, { once: true });
+    });
+    try {
+        const result: Result<V, E | AbortedError> = await Promise.race([fromTryAsync<V, E>(() => fn(signal)), aborted]);
+        // operations usually reject with the abort reason, which is reported as an AbortedError
+        if (isFailure(result) && signal.aborted && !(result.error instanceof AbortedError)) {
+            return failure(abortedError(signal));
+        }
+        return result;
+    } finally {
+        signal.removeEventListener("abort", onAbort);
+    }
+}
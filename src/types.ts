@@ -1,14 +1,27 @@
+import { Result } from "~/result";
+
 export type NodeCallback<V, E> = (error: E | null | undefined, result: V) => void;
 export type Recover<V, E> = (error: E) => V;
 export type Fn<T> = () => T;
+export type Awaitable<T> = T | Promise<T>;
+export type NonEmptyArray<T> = [T, ...T[]];
 
 export interface Match<V, E, T> {
     success: (value: V) => T;
     failure: (error: E) => T;
 }
 
-export interface AsyncMatch<V, E, T> {
-    pending: () => Promise<T> | T;
+export interface AsyncMatch<V, E, T, P = unknown> {
+    pending: (progress?: P) => Promise<T> | T;
     success: (value: V) => Promise<T> | T;
     failure: (error: E) => Promise<T> | T;
+    /** Called for `idle`. Defaults to the `pending` handler. */
+    idle?: () => Promise<T> | T;
+    /** Called for `refreshing`. Defaults to the handler of the previous result, to keep showing it. */
+    refreshing?: (previous: Result<V, E>, progress?: P) => Promise<T> | T;
+}
+
+export interface MatchMaybe<V, T> {
+    some: (value: V) => T;
+    none: () => T;
 }
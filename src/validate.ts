@@ -0,0 +1,111 @@
+import { ErrorsOf, failure, isFailure, Result, success, ValuesOf } from "~/result";
+import { NonEmptyArray } from "~/types";
+
+export type PathSegment = string | number;
+
+/**
+ * An error at a path inside a validated structure.
+ */
+export class FieldError<E> {
+    constructor(
+        readonly path: readonly PathSegment[],
+        readonly error: E
+    ) {}
+}
+
+type Results = readonly Result<unknown, unknown>[] | Record<string, Result<unknown, unknown>>;
+
+/** The error type of a field, where nested field errors are flattened to their own error type */
+export type LeafError<E> = E extends readonly FieldError<infer L>[] ? L : E;
+
+function isFieldErrors(error: unknown): error is FieldError<unknown>[] {
+    return Array.isArray(error) && error.length > 0 && error.every(item => item instanceof FieldError);
+}
+
+function entries(results: Iterable<Result<unknown, unknown>> | Results): [PathSegment, Result<unknown, unknown>][] {
+    if (Symbol.iterator in results) {
+        return Array.from(results, (result, i) => [i, result]);
+    }
+    return Object.entries(results);
+}
+
+function collect(results: Iterable<Result<unknown, unknown>> | Results, fields: boolean): Result<unknown, unknown> {
+    const items = entries(results);
+    const values: [PathSegment, unknown][] = [];
+    const errors: unknown[] = [];
+    for (const [key, result] of items) {
+        if (!isFailure(result)) {
+            values.push([key, result.value]);
+        } else if (!fields) {
+            errors.push(result.error);
+        } else if (isFieldErrors(result.error)) {
+            errors.push(...result.error.map(e => new FieldError([key, ...e.path], e.error)));
+        } else {
+            errors.push(new FieldError([key], result.error));
+        }
+    }
+    if (errors.length > 0) {
+        return failure(errors);
+    }
+    return success(Symbol.iterator in results ? values.map(([, value]) => value) : Object.fromEntries(values));
+}
+
+/**
+ * Returns the errors of all the failures, in order.
+ */
+export function collectErrors<V, E>(results: Iterable<Result<V, E>>): E[] {
+    const errors: E[] = [];
+    for (const result of results) {
+        if (isFailure(result)) {
+            errors.push(result.error);
+        }
+    }
+    return errors;
+}
+
+/**
+ * Like `all`, but fails with every error instead of the first one.
+ * Accepts arrays, tuples and records of results.
+ */
+export function validate<T extends readonly Result<unknown, unknown>[] | []>(
+    results: T
+): Result<ValuesOf<T>, NonEmptyArray<ErrorsOf<T>>>;
+export function validate<V, E>(results: Iterable<Result<V, E>>): Result<V[], NonEmptyArray<E>>;
+export function validate<T extends Record<string, Result<unknown, unknown>>>(
+    results: T
+): Result<ValuesOf<T>, NonEmptyArray<ErrorsOf<T>>>;
+export function validate(results: Iterable<Result<unknown, unknown>> | Results): Result<unknown, unknown> {
+    return collect(results, false);
+}
+
+/**
+ * Like `validate`, but each error is wrapped in a `FieldError` with the key or index where it happened.
+ * Failures from nested `validateFields` calls are merged, with their paths prefixed by the key.
+ *
+ * validateFields({
+ *     name: validateName(input.name),
+ *     address: validateFields({ city: validateCity(input.address.city) }),
+ * });
+ * // Failure([FieldError(["address", "city"], "City is required")])
+ */
+export function validateFields<T extends readonly Result<unknown, unknown>[] | []>(
+    fields: T
+): Result<ValuesOf<T>, NonEmptyArray<FieldError<LeafError<ErrorsOf<T>>>>>;
+export function validateFields<T extends Record<string, Result<unknown, unknown>>>(
+    fields: T
+): Result<ValuesOf<T>, NonEmptyArray<FieldError<LeafError<ErrorsOf<T>>>>>;
+export function validateFields(fields: Results): Result<unknown, unknown> {
+    return collect(fields, true);
+}
+
+/**
+ * Formats a path as a JSON path, such as `$.items[3].price`.
+ */
+export function formatPath(path: readonly PathSegment[]): string {
+    return path.reduce<string>((text, segment) => {
+        if (typeof segment === "number") {
+            return `${text}[${segment}]`;
+        }
+        return /^[A-Za-z_$][\w$]*$/.test(segment) ? `${text}.${segment}` : `${text}[${JSON.stringify(segment)}]`;
+    }, "$");
+}
@@ -10,6 +10,21 @@ import {
     pending,
     isAsyncResult,
     matchAsync,
+    AsyncState,
+    idle,
+    isAsyncState,
+    isIdle,
+    isLoading,
+    isRefreshing,
+    progress,
+    refreshing,
+    reload,
+    Result,
+    mapAsyncResult,
+    chainAsyncResult,
+    combineAsyncResults,
+    switchLatest,
+    AbortedError,
 } from "~/index";
 
 describe("AsyncResult", () => {
@@ -18,6 +33,15 @@ describe("AsyncResult", () => {
             expect(isPending(pending)).toBe(true);
         });
 
+        test("type guards accept the value and error types alone", () => {
+            const result: AsyncResult<number, string> = pending;
+
+            expect(isPending<number, string>(result)).toBe(true);
+            expect(isIdle<number, string>(result)).toBe(false);
+            expect(isRefreshing<number, string>(result)).toBe(false);
+            expect(isLoading<number, string>(result)).toBe(true);
+        });
+
         test("isPending returns false for success results", () => {
             const result: AsyncResult<string, Error> = success("test");
             expect(isPending(result)).toBe(false);
@@ -189,4 +213,165 @@ describe("AsyncResult", () => {
             expect(processResult(failureResult)).toBe("failure: test");
         });
     });
+
+    describe("Lifecycle", () => {
+        const previous = success("old") as Result<string, Error>;
+
+        test("state constructors and guards", () => {
+            expect(isIdle(idle)).toBe(true);
+            expect(isIdle(pending)).toBe(false);
+            expect(progress(0.5)).toEqual({ status: "pending", progress: 0.5 });
+            expect(isPending(progress(0.5))).toBe(true);
+            expect(refreshing(previous)).toEqual({ status: "refreshing", previous });
+            expect(refreshing(previous, 10)).toEqual({ status: "refreshing", previous, progress: 10 });
+            expect(isRefreshing(refreshing(previous))).toBe(true);
+            expect(isRefreshing(previous)).toBe(false);
+        });
+
+        test("isLoading identifies pending and refreshing states", () => {
+            expect(isLoading(pending)).toBe(true);
+            expect(isLoading(refreshing(previous))).toBe(true);
+            expect(isLoading(idle)).toBe(false);
+            expect(isLoading(previous)).toBe(false);
+        });
+
+        test("isAsyncState identifies every state", () => {
+            expect([idle, pending, refreshing(previous), previous, failure(1)].every(isAsyncState)).toBe(true);
+            expect(isAsyncState({ status: "done" })).toBe(false);
+            expect(isAsyncResult(idle)).toBe(false);
+        });
+
+        test("reload keeps the previous result", () => {
+            expect(reload(idle)).toBe(pending);
+            expect(reload(pending)).toBe(pending);
+            expect(reload(previous)).toEqual(refreshing(previous));
+            expect(reload(refreshing(previous, 0.5))).toEqual(refreshing(previous));
+        });
+
+        test("matchAsync passes the progress to the pending handler", async () => {
+            const result = await matchAsync(progress(0.5), {
+                pending: p => `loading ${p}`,
+                success: () => "success",
+                failure: () => "failure",
+            });
+
+            expect(result).toBe("loading 0.5");
+        });
+
+        test("matchAsync uses the idle handler, or falls back to pending", async () => {
+            const patterns = { pending: () => "pending", success: () => "success", failure: () => "failure" };
+
+            expect(await matchAsync(idle, patterns)).toBe("pending");
+            expect(await matchAsync(idle, { ...patterns, idle: () => "idle" })).toBe("idle");
+        });
+
+        test("matchAsync uses the refreshing handler, or falls back to the previous result", async () => {
+            const patterns = {
+                pending: () => "pending",
+                success: (value: string) => `success ${value}`,
+                failure: (error: Error) => `failure ${error.message}`,
+            };
+            const state: AsyncState<string, Error> = refreshing(previous);
+
+            expect(await matchAsync(state, patterns)).toBe("success old");
+            expect(await matchAsync(refreshing(failure(new Error("boom")) as Result<string, Error>), patterns)).toBe(
+                "failure boom"
+            );
+            expect(
+                await matchAsync(state, {
+                    ...patterns,
+                    refreshing: (result, p) => `refreshing ${isSuccess(result) && result.value} ${p}`,
+                })
+            ).toBe("refreshing old undefined");
+        });
+    });
+
+    describe("Combinators", () => {
+        const user = success({ id: 1, name: "Ada" }) as AsyncResult<{ id: number; name: string }, string>;
+
+        test("mapAsyncResult maps successes and keeps other states", () => {
+            expect(mapAsyncResult(user, u => u.name)).toEqual(success("Ada"));
+            expect(mapAsyncResult(failure("down") as AsyncResult<number, string>, x => x + 1)).toEqual(failure("down"));
+            expect(mapAsyncResult(pending as AsyncResult<number, string>, x => x + 1)).toBe(pending);
+            expect(mapAsyncResult(idle as AsyncState<number, string>, x => x + 1)).toBe(idle);
+        });
+
+        test("mapAsyncResult maps the previous result of a refreshing state", () => {
+            const state: AsyncState<number, string> = refreshing(success(1), 0.5);
+
+            expect(mapAsyncResult(state, x => x + 1)).toEqual(refreshing(success(2), 0.5));
+        });
+
+        test("chainAsyncResult chains successes into other states", () => {
+            expect(chainAsyncResult(user, u => success(u.id))).toEqual(success(1));
+            expect(chainAsyncResult(user, () => pending)).toBe(pending);
+            expect(chainAsyncResult(failure("down") as AsyncResult<number, string>, () => success(1))).toEqual(
+                failure("down")
+            );
+            expect(chainAsyncResult(pending as AsyncResult<number, string>, () => success(1))).toBe(pending);
+        });
+
+        test("chainAsyncResult keeps refreshing states refreshing", () => {
+            const state: AsyncState<number, string> = refreshing(success(1));
+
+            expect(chainAsyncResult(state, x => success(x + 1))).toEqual(refreshing(success(2)));
+            expect(chainAsyncResult(state, () => pending)).toBe(pending);
+        });
+
+        test("combineAsyncResults combines tuples with precise types", () => {
+            const combined: AsyncResult<[{ id: number; name: string }, number], string> = combineAsyncResults([
+                user,
+                success(2),
+            ]);
+
+            expect(combined).toEqual(success([{ id: 1, name: "Ada" }, 2]));
+        });
+
+        test("combineAsyncResults combines records", () => {
+            const combined = combineAsyncResults({ user, count: success(2) });
+
+            expect(combined).toEqual(success({ user: { id: 1, name: "Ada" }, count: 2 }));
+        });
+
+        test("combineAsyncResults gives pending, then the first failure", () => {
+            expect(combineAsyncResults([user, pending, failure("down")])).toBe(pending);
+            expect(combineAsyncResults([user, failure("a"), failure("b")])).toEqual(failure("a"));
+            expect(combineAsyncResults([])).toEqual(success([]));
+        });
+
+        test("combineAsyncResults handles idle and refreshing states", () => {
+            const stale: AsyncState<number, string> = refreshing(success(1));
+
+            expect(combineAsyncResults([idle, pending])).toBe(pending);
+            expect(combineAsyncResults([idle, user])).toBe(idle);
+            expect(combineAsyncResults({ stale, count: success(2) })).toEqual(
+                refreshing(success({ stale: 1, count: 2 }))
+            );
+        });
+
+        test("switchLatest discards the results of superseded calls", async () => {
+            const resolvers: Record<string, (result: Result<string, never>) => void> = {};
+            const search = switchLatest(
+                (query: string) => new Promise<Result<string, never>>(resolve => (resolvers[query] = resolve))
+            );
+
+            const slow = search("a");
+            const fast = search("ab");
+            resolvers.ab(success("ab results"));
+            resolvers.a(success("a results"));
+
+            expect(await fast).toEqual(success("ab results"));
+            const superseded = await slow;
+            expect(isFailure(superseded) && superseded.error).toBeInstanceOf(AbortedError);
+        });
+
+        test("switchLatest turns thrown errors into failures", async () => {
+            const error = new Error("boom");
+            const fn = switchLatest(async (): Promise<Result<number, Error>> => {
+                throw error;
+            });
+
+            expect(await fn()).toEqual(failure(error));
+        });
+    });
 });
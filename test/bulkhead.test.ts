@@ -0,0 +1,137 @@
+import { expect, test, describe, vi } from "vitest";
+import { fakeClock } from "!/fake-clock";
+import { bulkhead, BulkheadRejectedError } from "~/bulkhead";
+import { failure, fromTryAsync, isFailure, Result, success } from "~/result";
+
+/** An operation that waits until it is released */
+function gated() {
+    const pending = new Map<string, () => void>();
+    const fn = vi.fn(
+        (key: string) => new Promise<Result<string, string>>(resolve => pending.set(key, () => resolve(success(key))))
+    );
+    return { fn, release: (key: string) => pending.get(key)?.() };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve));
+
+describe("Bulkhead", () => {
+    test("bulkhead limits the calls running at the same time", async () => {
+        const { fn, release } = gated();
+        const limited = bulkhead(fn, { maxConcurrent: 2, maxQueue: 1 });
+
+        const calls = [limited("a"), limited("b"), limited("c")];
+        await tick();
+
+        expect(fn).toHaveBeenCalledTimes(2);
+        expect(limited.running).toBe(2);
+        expect(limited.queued).toBe(1);
+
+        release("a");
+        await tick();
+
+        expect(fn).toHaveBeenCalledTimes(3);
+        expect(limited.running).toBe(2);
+        expect(limited.queued).toBe(0);
+
+        release("b");
+        release("c");
+        expect(await Promise.all(calls)).toEqual([success("a"), success("b"), success("c")]);
+        expect(limited.running).toBe(0);
+    });
+
+    test("bulkhead rejects calls when the queue is full", async () => {
+        const { fn, release } = gated();
+        const limited = bulkhead(fn, { maxConcurrent: 1, maxQueue: 1 });
+
+        const first = limited("a");
+        const second = limited("b");
+        const result = await limited("c");
+
+        expect(isFailure(result)).toBe(true);
+        if (isFailure(result)) {
+            expect(result.error).toBeInstanceOf(BulkheadRejectedError);
+            expect((result.error as BulkheadRejectedError)._tag).toBe("BulkheadRejectedError");
+            expect(result.error).toMatchObject({ maxConcurrent: 1, maxQueue: 1 });
+        }
+
+        release("a");
+        await tick();
+        release("b");
+        expect(await Promise.all([first, second])).toEqual([success("a"), success("b")]);
+    });
+
+    test("bulkhead releases the slot when the function throws", async () => {
+        const error = new Error("boom");
+        const limited = bulkhead(
+            async (): Promise<Result<string, Error>> => {
+                throw error;
+            },
+            { maxConcurrent: 1 }
+        );
+
+        expect(await limited()).toEqual(failure(error));
+        expect(limited.running).toBe(0);
+    });
+
+    test("bulkhead releases the slot when a listener throws", async () => {
+        const { fn, release } = gated();
+        const limited = bulkhead(fn, { maxConcurrent: 1, maxQueue: 1 });
+        limited.on("start", () => {
+            throw new Error("metrics are down");
+        });
+        limited.on("finish", () => {
+            throw new Error("metrics are down");
+        });
+
+        const first = limited("a");
+        const second = limited("b");
+        await tick();
+        release("a");
+        expect(await first).toEqual(success("a"));
+        await tick();
+        release("b");
+        expect(await second).toEqual(success("b"));
+        expect(limited.running).toBe(0);
+    });
+
+    test("bulkhead composes with fromTryAsync", async () => {
+        const limited = bulkhead((id: number) => fromTryAsync(async () => ({ id })), { maxConcurrent: 1 });
+
+        expect(await limited(42)).toEqual(success({ id: 42 }));
+    });
+
+    test("bulkhead throws on an invalid limit", () => {
+        expect(() => bulkhead(async () => success(1), { maxConcurrent: 0 })).toThrow(RangeError);
+    });
+
+    test("bulkhead emits events with the clock's durations", async () => {
+        const clock = fakeClock();
+        const { fn, release } = gated();
+        const limited = bulkhead(fn, { maxConcurrent: 1, maxQueue: 1, clock });
+        const onStart = vi.fn();
+        const onFinish = vi.fn();
+        const onReject = vi.fn();
+        limited.on("start", onStart);
+        limited.on("finish", onFinish);
+        limited.on("reject", onReject);
+
+        const first = limited("a");
+        const second = limited("b");
+        await limited("c");
+        clock.time = 30;
+        release("a");
+        await first;
+        await tick();
+        clock.time = 50;
+        release("b");
+        await second;
+
+        expect(onStart.mock.calls).toEqual([[0], [30]]);
+        expect(onFinish.mock.calls).toEqual([
+            [success("a"), 30],
+            [success("b"), 20],
+        ]);
+        expect(onReject).toHaveBeenCalledTimes(1);
+        expect(onReject.mock.calls[0][0]).toBeInstanceOf(BulkheadRejectedError);
+    });
+});
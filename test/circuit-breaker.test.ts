@@ -0,0 +1,186 @@
+import { expect, test, describe, vi } from "vitest";
+import { fakeClock } from "!/fake-clock";
+import { CircuitBreaker, circuitBreaker, CircuitOpenError, CircuitState } from "~/circuit-breaker";
+import { failure, fromTryAsync, isFailure, Result, success } from "~/result";
+
+/** Calls the breaker once for each outcome, in order */
+async function run<E>(breaker: CircuitBreaker<[boolean], string, E>, ...outcomes: boolean[]) {
+    const results = [];
+    for (const ok of outcomes) {
+        results.push(await breaker(ok));
+    }
+    return results;
+}
+
+function service() {
+    return vi.fn(async (ok: boolean): Promise<Result<string, string>> => (ok ? success("ok") : failure("down")));
+}
+
+describe("Circuit Breaker", () => {
+    test("circuitBreaker passes results through while closed", async () => {
+        const fn = service();
+        const breaker = circuitBreaker(fn, { clock: fakeClock() });
+
+        expect(await run(breaker, true, false)).toEqual([success("ok"), failure("down")]);
+        expect(breaker.state).toBe("closed");
+        expect(breaker.failures).toBe(1);
+    });
+
+    test("circuitBreaker opens after consecutive failures and rejects without calling", async () => {
+        const fn = service();
+        const breaker = circuitBreaker(fn, { failureThreshold: 2, resetTimeout: 1000, clock: fakeClock() });
+
+        await run(breaker, false, false);
+        const result = await breaker(true);
+
+        expect(breaker.state).toBe("open");
+        expect(fn).toHaveBeenCalledTimes(2);
+        expect(isFailure(result)).toBe(true);
+        if (isFailure(result)) {
+            expect(result.error).toBeInstanceOf(CircuitOpenError);
+            expect((result.error as CircuitOpenError)._tag).toBe("CircuitOpenError");
+            expect((result.error as CircuitOpenError).retryAfter).toBe(1000);
+        }
+    });
+
+    test("circuitBreaker resets the failure count on success", async () => {
+        const breaker = circuitBreaker(service(), { failureThreshold: 2, clock: fakeClock() });
+
+        await run(breaker, false, true, false);
+
+        expect(breaker.state).toBe("closed");
+        expect(breaker.failures).toBe(1);
+    });
+
+    test("circuitBreaker closes after a successful trial call", async () => {
+        const clock = fakeClock();
+        const breaker = circuitBreaker(service(), { failureThreshold: 1, resetTimeout: 1000, clock });
+
+        await run(breaker, false);
+        clock.time = 1000;
+        const result = await breaker(true);
+
+        expect(result).toEqual(success("ok"));
+        expect(breaker.state).toBe("closed");
+    });
+
+    test("circuitBreaker opens again after a failed trial call", async () => {
+        const clock = fakeClock();
+        const breaker = circuitBreaker(service(), { failureThreshold: 1, resetTimeout: 1000, clock });
+
+        await run(breaker, false);
+        clock.time = 1500;
+        await run(breaker, false);
+        clock.time = 2000;
+        const result = await breaker(true);
+
+        expect(breaker.state).toBe("open");
+        expect(isFailure(result) && (result.error as CircuitOpenError).retryAfter).toBe(500);
+    });
+
+    test("circuitBreaker limits the trial calls while half-open", async () => {
+        const clock = fakeClock();
+        let release!: () => void;
+        const fn = vi.fn(
+            (ok: boolean): Promise<Result<string, string>> =>
+                ok ? new Promise(resolve => (release = () => resolve(success("ok")))) : Promise.resolve(failure("down"))
+        );
+        const breaker = circuitBreaker(fn, { failureThreshold: 1, resetTimeout: 1000, halfOpenMax: 1, clock });
+
+        await breaker(false);
+        clock.time = 1000;
+        const trial = breaker(true);
+        const rejected = await breaker(true);
+
+        expect(breaker.state).toBe("half-open");
+        expect(isFailure(rejected) && rejected.error).toBeInstanceOf(CircuitOpenError);
+        release();
+        expect(await trial).toEqual(success("ok"));
+        expect(breaker.state).toBe("closed");
+        expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    test("circuitBreaker only counts failures that trip", async () => {
+        const breaker = circuitBreaker(service(), {
+            failureThreshold: 1,
+            shouldTrip: error => error !== "down",
+            clock: fakeClock(),
+        });
+
+        await run(breaker, false, false);
+
+        expect(breaker.state).toBe("closed");
+    });
+
+    test("circuitBreaker counts thrown errors as failures", async () => {
+        const error = new Error("boom");
+        const breaker = circuitBreaker(
+            async (): Promise<Result<string, Error>> => {
+                throw error;
+            },
+            { failureThreshold: 1, clock: fakeClock() }
+        );
+
+        expect(await breaker()).toEqual(failure(error));
+        expect(breaker.state).toBe("open");
+    });
+
+    test("circuitBreaker composes with fromTryAsync", async () => {
+        const breaker = circuitBreaker((id: number) => fromTryAsync(async () => ({ id })));
+
+        expect(await breaker(42)).toEqual(success({ id: 42 }));
+    });
+
+    test("circuitBreaker emits events", async () => {
+        const clock = fakeClock();
+        const breaker = circuitBreaker(service(), { failureThreshold: 1, resetTimeout: 1000, clock });
+        const changes: [CircuitState, CircuitState][] = [];
+        const onSuccess = vi.fn();
+        const onFailure = vi.fn();
+        const onReject = vi.fn();
+        breaker.on("stateChange", (state, previous) => changes.push([state, previous]));
+        breaker.on("success", onSuccess);
+        breaker.on("failure", onFailure);
+        const off = breaker.on("reject", onReject);
+
+        await run(breaker, false, true);
+        off();
+        await run(breaker, true);
+        clock.time = 1000;
+        await run(breaker, true);
+
+        expect(changes).toEqual([
+            ["open", "closed"],
+            ["half-open", "open"],
+            ["closed", "half-open"],
+        ]);
+        expect(onFailure).toHaveBeenCalledWith("down");
+        expect(onSuccess).toHaveBeenCalledTimes(1);
+        expect(onReject).toHaveBeenCalledTimes(1);
+        expect(onReject.mock.calls[0][0]).toBeInstanceOf(CircuitOpenError);
+    });
+
+    test("circuitBreaker updates its state when a listener throws", async () => {
+        const breaker = circuitBreaker(service(), { failureThreshold: 1, clock: fakeClock() });
+        breaker.on("stateChange", () => {
+            throw new Error("metrics are down");
+        });
+        breaker.on("failure", () => {
+            throw new Error("metrics are down");
+        });
+
+        expect(await breaker(false)).toEqual(failure("down"));
+        expect(breaker.state).toBe("open");
+        expect(await breaker(true)).toEqual(failure(expect.any(CircuitOpenError)));
+    });
+
+    test("reset closes the circuit", async () => {
+        const breaker = circuitBreaker(service(), { failureThreshold: 1, clock: fakeClock() });
+
+        await run(breaker, false);
+        breaker.reset();
+
+        expect(breaker.state).toBe("closed");
+        expect(await breaker(true)).toEqual(success("ok"));
+    });
+});
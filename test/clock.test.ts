@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, expect, test, describe, vi } from "vitest";
+import { systemClock } from "~/clock";
+
+describe("Clock", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("now returns the current time", () => {
+        vi.setSystemTime(1000);
+        expect(systemClock.now()).toBe(1000);
+    });
+
+    test("sleep resolves after the delay", async () => {
+        const resolved = vi.fn();
+        systemClock.sleep(100).then(resolved);
+
+        await vi.advanceTimersByTimeAsync(99);
+        expect(resolved).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(1);
+        expect(resolved).toHaveBeenCalled();
+    });
+
+    test("sleep rejects with the abort reason and clears the timer", async () => {
+        const controller = new AbortController();
+        const promise = systemClock.sleep(100, controller.signal);
+
+        controller.abort("cancelled");
+
+        await expect(promise).rejects.toBe("cancelled");
+        expect(vi.getTimerCount()).toBe(0);
+    });
+
+    test("sleep rejects immediately if the signal is already aborted", async () => {
+        await expect(systemClock.sleep(100, AbortSignal.abort("cancelled"))).rejects.toBe("cancelled");
+        expect(vi.getTimerCount()).toBe(0);
+    });
+});
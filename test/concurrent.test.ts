@@ -0,0 +1,231 @@
+import { afterEach, beforeEach, expect, test, describe, vi } from "vitest";
+import { allAsync, anyAsync, settleAsync, Task } from "~/concurrent";
+import { failure, Result, success } from "~/result";
+
+function deferred<T>() {
+    let resolve!: (value: T) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    return { promise, resolve, reject };
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Creates a task that resolves or rejects after a delay, and records when it runs */
+function track<V>(log: string[], name: string, ms: number, value: V, fail = false): Task<V> {
+    return async signal => {
+        log.push(`start ${name}`);
+        signal.addEventListener("abort", () => log.push(`abort ${name}`));
+        await delay(ms);
+        log.push(`end ${name}`);
+        if (fail) {
+            throw value;
+        }
+        return value;
+    };
+}
+
+describe("Concurrent", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe("allAsync", () => {
+        test("allAsync succeeds with all values in input order", async () => {
+            const result = await allAsync([async () => 1, () => "two", async () => 3]);
+
+            expect(result).toEqual(success([1, "two", 3]));
+        });
+
+        test("allAsync keeps the type of each position for tuples", async () => {
+            const result: Result<[number, string], unknown> = await allAsync([async () => 1, async () => "two"]);
+
+            expect(result).toEqual(success([1, "two"]));
+        });
+
+        test("allAsync succeeds with an empty array for no tasks", async () => {
+            expect(await allAsync([])).toEqual(success([]));
+        });
+
+        test("allAsync limits the number of running tasks", async () => {
+            let running = 0;
+            let peak = 0;
+            const task = async () => {
+                running++;
+                peak = Math.max(peak, running);
+                await delay(5);
+                running--;
+                return running;
+            };
+
+            const promise = allAsync(
+                Array.from({ length: 6 }, () => task),
+                { concurrency: 2 }
+            );
+            await vi.runAllTimersAsync();
+            await promise;
+
+            expect(peak).toBe(2);
+        });
+
+        test("allAsync fails fast and aborts the running tasks", async () => {
+            const log: string[] = [];
+            const error = new Error("boom");
+            const promise = allAsync([track(log, "a", 50, 1), track(log, "b", 5, error, true), track(log, "c", 5, 3)], {
+                concurrency: 2,
+            });
+            await vi.advanceTimersByTimeAsync(5);
+
+            expect(await promise).toEqual(failure(error));
+            expect(log).toEqual(["start a", "start b", "end b", "abort a"]);
+        });
+
+        test("allAsync does not abort the tasks when all succeed", async () => {
+            const onAbort = vi.fn();
+            const signals: AbortSignal[] = [];
+            await allAsync([
+                async signal => {
+                    signals.push(signal);
+                    signal.addEventListener("abort", onAbort);
+                    return 1;
+                },
+            ]);
+
+            expect(signals[0].aborted).toBe(false);
+            expect(onAbort).not.toHaveBeenCalled();
+        });
+
+        test("allAsync fails with the abort reason when the signal is aborted", async () => {
+            const controller = new AbortController();
+            const gate = deferred<number>();
+            const seen: AbortSignal[] = [];
+            const promise = allAsync(
+                [
+                    signal => {
+                        seen.push(signal);
+                        return gate.promise;
+                    },
+                ],
+                { signal: controller.signal }
+            );
+
+            controller.abort("cancelled");
+
+            expect(await promise).toEqual(failure("cancelled"));
+            expect(seen[0].aborted).toBe(true);
+        });
+
+        test("allAsync does not start tasks if the signal is already aborted", async () => {
+            const task = vi.fn();
+
+            const result = await allAsync([task], { signal: AbortSignal.abort("cancelled") });
+
+            expect(result).toEqual(failure("cancelled"));
+            expect(task).not.toHaveBeenCalled();
+        });
+
+        test("allAsync rejects invalid concurrency", async () => {
+            await expect(allAsync([], { concurrency: 0 })).rejects.toThrow(RangeError);
+        });
+    });
+
+    describe("anyAsync", () => {
+        test("anyAsync succeeds with the first success and aborts the others", async () => {
+            const log: string[] = [];
+            const promise = anyAsync([track(log, "slow", 50, "slow"), track(log, "fast", 5, "fast")]);
+            await vi.advanceTimersByTimeAsync(5);
+
+            expect(await promise).toEqual(success("fast"));
+            expect(log).toEqual(["start slow", "start fast", "end fast", "abort slow"]);
+        });
+
+        test("anyAsync fails with all errors in input order", async () => {
+            const promise = anyAsync([
+                async () => {
+                    await delay(10);
+                    throw "a";
+                },
+                async () => {
+                    throw "b";
+                },
+            ]);
+            await vi.runAllTimersAsync();
+
+            expect(await promise).toEqual(failure(["a", "b"]));
+        });
+
+        test("anyAsync does not start remaining tasks after a success", async () => {
+            const task = vi.fn();
+
+            const result = await anyAsync([async () => 1, task], { concurrency: 1 });
+
+            expect(result).toEqual(success(1));
+            expect(task).not.toHaveBeenCalled();
+        });
+
+        test("anyAsync fills unsettled tasks with the abort reason", async () => {
+            const controller = new AbortController();
+            const promise = anyAsync(
+                [
+                    async () => {
+                        throw "a";
+                    },
+                    () => deferred<number>().promise,
+                ],
+                { signal: controller.signal }
+            );
+            await vi.advanceTimersByTimeAsync(1);
+            controller.abort("cancelled");
+
+            expect(await promise).toEqual(failure(["a", "cancelled"]));
+        });
+    });
+
+    describe("settleAsync", () => {
+        test("settleAsync returns every result in input order", async () => {
+            const promise = settleAsync([
+                async () => {
+                    await delay(10);
+                    return 1;
+                },
+                async () => {
+                    throw "b";
+                },
+                () => 3,
+            ]);
+            await vi.runAllTimersAsync();
+
+            expect(await promise).toEqual([success(1), failure("b"), success(3)]);
+        });
+
+        test("settleAsync limits the number of running tasks", async () => {
+            const log: string[] = [];
+            const promise = settleAsync([track(log, "a", 5, 1), track(log, "b", 5, 2)], { concurrency: 1 });
+            await vi.runAllTimersAsync();
+            await promise;
+
+            expect(log).toEqual(["start a", "end a", "start b", "end b"]);
+        });
+
+        test("settleAsync fails unsettled tasks with the abort reason", async () => {
+            const controller = new AbortController();
+            const third = vi.fn(() => 3);
+            const promise = settleAsync([async () => 1, () => deferred<number>().promise, third], {
+                concurrency: 1,
+                signal: controller.signal,
+            });
+            await vi.advanceTimersByTimeAsync(1);
+            controller.abort("cancelled");
+
+            expect(await promise).toEqual([success(1), failure("cancelled"), failure("cancelled")]);
+            expect(third).not.toHaveBeenCalled();
+        });
+    });
+});
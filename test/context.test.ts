@@ -0,0 +1,108 @@
+import { expect, test, describe, vi } from "vitest";
+import { context, ContextError, errorChain, formatErrorChain, withContext } from "~/context";
+import { failure, fromTry, isFailure, Result, success, unwrap } from "~/result";
+import { catchTag } from "~/tagged";
+
+function parseConfig(text: string): Result<unknown, unknown> {
+    return fromTry(() => JSON.parse(text));
+}
+
+describe("Error context", () => {
+    describe("context", () => {
+        test("context wraps failures with the original error as the cause", () => {
+            const error = new Error("root");
+            const result = context(failure(error), "loading config");
+
+            expect(isFailure(result)).toBe(true);
+            if (isFailure(result)) {
+                expect(result.error).toBeInstanceOf(ContextError);
+                expect(result.error.message).toBe("loading config");
+                expect(result.error.cause).toBe(error);
+                expect(result.error._tag).toBe("ContextError");
+            }
+        });
+
+        test("context preserves successes", () => {
+            const result = success(42);
+
+            expect(context(result, "loading config")).toBe(result);
+        });
+
+        test("context can be layered", () => {
+            const inner = context(parseConfig("{"), "parsing config file");
+            const outer = context(inner, "loading config for tenant X");
+
+            expect(errorChain(isFailure(outer) ? outer.error : null).map(e => (e as Error).name)).toEqual([
+                "ContextError",
+                "ContextError",
+                "SyntaxError",
+            ]);
+        });
+
+        test("unwrap throws the contextual error", () => {
+            const result = context(parseConfig("{"), "loading config");
+
+            expect(() => unwrap(result)).toThrow(ContextError);
+            expect(() => unwrap(result)).toThrow("loading config");
+        });
+
+        test("contextual errors can be handled by tag", () => {
+            const result = catchTag(context(failure("root"), "loading config"), "ContextError", error =>
+                success(error.cause)
+            );
+
+            expect(result).toEqual(success("root"));
+        });
+    });
+
+    describe("withContext", () => {
+        test("withContext computes the message from the error", () => {
+            const result = withContext(failure(404), status => `request failed with ${status}`);
+
+            expect(isFailure(result) && result.error.message).toBe("request failed with 404");
+            expect(isFailure(result) && result.error.cause).toBe(404);
+        });
+
+        test("withContext doesn't compute the message for successes", () => {
+            const fn = vi.fn(() => "message");
+            const result = success(42);
+
+            expect(withContext(result, fn)).toBe(result);
+            expect(fn).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("formatErrorChain", () => {
+        test("formatErrorChain renders every cause with stack frames", () => {
+            const result = context(context(parseConfig("{"), "parsing config file"), "loading config for tenant X");
+            const text = formatErrorChain(isFailure(result) ? result.error : null);
+            const lines = text.split("\n");
+
+            expect(lines[0]).toBe("ContextError: loading config for tenant X");
+            expect(lines[1]).toMatch(/^\s+at /);
+            expect(text).toContain("Caused by: ContextError: parsing config file");
+            expect(text).toMatch(/Caused by: SyntaxError: /);
+        });
+
+        test("formatErrorChain can omit stack frames", () => {
+            const error = new ContextError({ message: "outer", cause: new TypeError("inner") });
+
+            expect(formatErrorChain(error, { stack: false })).toBe("ContextError: outer\nCaused by: TypeError: inner");
+        });
+
+        test("formatErrorChain renders non-Error values", () => {
+            const error = new Error("outer", { cause: { code: 42 } });
+
+            expect(formatErrorChain("plain")).toBe("plain");
+            expect(formatErrorChain(error, { stack: false })).toBe("Error: outer\nCaused by: [object Object]");
+        });
+
+        test("formatErrorChain stops at circular causes", () => {
+            const a = new Error("a");
+            const b = new Error("b", { cause: a });
+            a.cause = b;
+
+            expect(formatErrorChain(b, { stack: false })).toBe("Error: b\nCaused by: Error: a");
+        });
+    });
+});
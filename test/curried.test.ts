@@ -0,0 +1,150 @@
+import { expect, test, describe, vi } from "vitest";
+import * as R from "~/curried";
+import { flow, pipe } from "~/pipe";
+import { failure, fromTryAsync, Result, success } from "~/result";
+
+const parse = (x: string): Result<number, string> => (isNaN(+x) ? failure(`${x} is not a number`) : success(+x));
+
+describe("Curried", () => {
+    describe("Pipelines", () => {
+        test("curried functions infer types inside pipe", () => {
+            const value: number = pipe(
+                parse("20"),
+                R.map(x => x + 1),
+                R.chain(x => success(x * 2)),
+                R.unwrapOr(0)
+            );
+
+            expect(value).toBe(42);
+        });
+
+        test("failures short-circuit through the pipeline", () => {
+            const fn = vi.fn((x: number) => x + 1);
+            const value = pipe(parse("x"), R.map(fn), R.unwrapOr(0));
+
+            expect(value).toBe(0);
+            expect(fn).not.toHaveBeenCalled();
+        });
+
+        test("curried functions compose with flow", () => {
+            const parsePositive = flow(
+                parse,
+                R.filter(
+                    x => x > 0,
+                    x => `${x} is not positive`
+                )
+            );
+
+            expect(parsePositive("42")).toEqual(success(42));
+            expect(parsePositive("-1")).toEqual(failure("-1 is not positive"));
+            expect(parsePositive("x")).toEqual(failure("x is not a number"));
+        });
+
+        test("async curried functions work in pipe", async () => {
+            const value = await pipe(
+                fromTryAsync<number, string>(async () => 20),
+                R.mapAsync(async x => x + 1),
+                R.chainAsync(async x => success(x * 2)),
+                R.tapAsync(() => {}),
+                R.recoverAsync(() => 0)
+            );
+
+            expect(value).toEqual(success(42));
+        });
+    });
+
+    describe("Combinators", () => {
+        const ok = parse("21");
+        const ko = parse("x");
+
+        test("unwrap helpers", () => {
+            expect(R.unwrapOr<number>()(ko)).toBeUndefined();
+            expect(R.unwrapOrElse((e: string) => e.length)(ko)).toBe(17);
+            expect(R.unwrap(ok)).toBe(21);
+        });
+
+        test("recover and match", () => {
+            expect(R.recover(() => 0)(ko)).toEqual(success(0));
+            expect(R.match({ success: (x: number) => x, failure: () => -1 })(ok)).toBe(21);
+        });
+
+        test("error channel", () => {
+            expect(
+                pipe(
+                    ko,
+                    R.mapError(e => e.length)
+                )
+            ).toEqual(failure(17));
+            expect(
+                pipe(
+                    ok,
+                    R.bimap(
+                        x => x * 2,
+                        e => e.length
+                    )
+                )
+            ).toEqual(success(42));
+            expect(
+                pipe(
+                    ko,
+                    R.orElse(() => success(0))
+                )
+            ).toEqual(success(0));
+            expect(pipe(ok, R.swap)).toEqual(failure(21));
+        });
+
+        test("side effects", () => {
+            const onValue = vi.fn();
+            const onError = vi.fn();
+
+            pipe(ok, R.tap(onValue), R.tapError(onError));
+
+            expect(onValue).toHaveBeenCalledWith(21);
+            expect(onError).not.toHaveBeenCalled();
+        });
+
+        test("combining results", () => {
+            expect(pipe(ok, R.zip(success("x")))).toEqual(success([21, "x"]));
+            expect(
+                pipe(
+                    ok,
+                    R.zipWith(success(21), (a, b) => a + b)
+                )
+            ).toEqual(success(42));
+            expect(pipe(ok, R.and(success("x")))).toEqual(success("x"));
+            expect(pipe(ko, R.or(success(0)))).toEqual(success(0));
+            expect(pipe(success(ok), R.flatten)).toEqual(success(21));
+        });
+
+        test("async error channel", async () => {
+            expect(
+                await pipe(
+                    ko,
+                    R.orElseAsync(async () => success(0))
+                )
+            ).toEqual(success(0));
+        });
+
+        test("context", () => {
+            const result = pipe(ko, R.context("parsing input"));
+            const lazy = pipe(
+                ko,
+                R.withContext(e => `parsing input: ${e}`)
+            );
+
+            expect(
+                pipe(
+                    result,
+                    R.mapError(e => e.message)
+                )
+            ).toEqual(failure("parsing input"));
+            expect(
+                pipe(
+                    lazy,
+                    R.mapError(e => e.message)
+                )
+            ).toEqual(failure("parsing input: x is not a number"));
+            expect(pipe(ok, R.context("parsing input"))).toBe(ok);
+        });
+    });
+});
@@ -0,0 +1,148 @@
+import { expect, test, describe } from "vitest";
+import { D } from "~/index";
+import { chain, failure, isFailure, map, success } from "~/result";
+import { FieldError, formatPath } from "~/validate";
+
+const Item = D.object({
+    name: D.string(),
+    price: D.refine(D.number(), n => n > 0, "Expected a positive number"),
+    note: D.optional(D.string()),
+});
+
+const Order = D.object({
+    id: D.union(D.string(), D.number()),
+    status: D.union(D.literal("open"), D.literal("closed")),
+    items: D.array(Item),
+});
+
+/** Formats decode errors as `path: message` lines */
+function messages(errors: D.DecodeError[]) {
+    return errors.map(({ path, error }) => `${formatPath(path)}: ${error}`);
+}
+
+describe("Decoder", () => {
+    describe("Primitives", () => {
+        test("string decodes strings", () => {
+            expect(D.string()("a")).toEqual(success("a"));
+            expect(D.string()(1)).toEqual(failure([new FieldError([], "Expected a string, got number")]));
+        });
+
+        test("number decodes finite numbers", () => {
+            expect(D.number()(1.5)).toEqual(success(1.5));
+            expect(isFailure(D.number()(NaN))).toBe(true);
+            expect(D.number()(null)).toEqual(failure([new FieldError([], "Expected a number, got null")]));
+        });
+
+        test("boolean decodes booleans", () => {
+            expect(D.boolean()(false)).toEqual(success(false));
+            expect(isFailure(D.boolean()("false"))).toBe(true);
+        });
+
+        test("literal decodes an exact value", () => {
+            expect(D.literal("open")("open")).toEqual(success("open"));
+            expect(D.literal("open")("closed")).toEqual(failure([new FieldError([], 'Expected "open"')]));
+        });
+    });
+
+    describe("Combinators", () => {
+        test("array decodes every item", () => {
+            expect(D.array(D.number())([1, 2])).toEqual(success([1, 2]));
+            expect(D.array(D.number())({})).toEqual(failure([new FieldError([], "Expected an array, got object")]));
+        });
+
+        test("object decodes known fields and removes the others", () => {
+            const result = Item({ name: "Tea", price: 3, extra: true });
+
+            expect(result).toEqual(success({ name: "Tea", price: 3 }));
+        });
+
+        test("object keeps optional fields that are present", () => {
+            expect(Item({ name: "Tea", price: 3, note: "green" })).toEqual(
+                success({ name: "Tea", price: 3, note: "green" })
+            );
+        });
+
+        test("object ignores inherited properties", () => {
+            const decoder = D.object({ constructor: D.optional(D.string()), toString: D.optional(D.string()) });
+
+            expect(decoder({})).toEqual(success({}));
+            expect(decoder({ constructor: "own" })).toEqual(success({ constructor: "own" }));
+            expect(D.object({ valueOf: D.number() })({ valueOf: 1 })).toEqual(success({ valueOf: 1 }));
+        });
+
+        test("union returns the first success, or every issue", () => {
+            const decoder = D.union(D.string(), D.number());
+
+            expect(decoder(1)).toEqual(success(1));
+            const result = decoder(true);
+            expect(isFailure(result)).toBe(true);
+            if (isFailure(result)) {
+                expect(messages(result.error)).toEqual([
+                    "$: Expected a string, got boolean",
+                    "$: Expected a number, got boolean",
+                ]);
+            }
+        });
+
+        test("refine checks the decoded value", () => {
+            const decoder = D.refine(
+                D.string(),
+                s => s.length > 0,
+                s => `Expected a non-empty string, got "${s}"`
+            );
+
+            expect(decoder("a")).toEqual(success("a"));
+            expect(decoder("")).toEqual(failure([new FieldError([], 'Expected a non-empty string, got ""')]));
+        });
+    });
+
+    describe("Paths", () => {
+        test("nested failures accumulate every issue with its path", () => {
+            const result = Order({
+                id: 7,
+                status: "pending",
+                items: [
+                    { name: "Tea", price: 3 },
+                    { name: 42, price: -1 },
+                ],
+            });
+
+            expect(isFailure(result)).toBe(true);
+            if (isFailure(result)) {
+                expect(messages(result.error)).toEqual([
+                    '$.status: Expected "open"',
+                    '$.status: Expected "closed"',
+                    "$.items[1].name: Expected a string, got number",
+                    "$.items[1].price: Expected a positive number",
+                ]);
+            }
+        });
+
+        test("decoded values have the inferred type", () => {
+            const result = Order({ id: "a1", status: "open", items: [{ name: "Tea", price: 3 }] });
+
+            expect(isFailure(result)).toBe(false);
+            if (!isFailure(result)) {
+                const order: {
+                    id: string | number;
+                    status: "open" | "closed";
+                    items: { name: string; price: number; note?: string }[];
+                } = result.value;
+                expect(order.items[0].name).toBe("Tea");
+            }
+        });
+    });
+
+    describe("Composition", () => {
+        test("decoders compose with map and chain", () => {
+            const parseDate = (text: string) => {
+                const date = new Date(text);
+                return isNaN(date.getTime()) ? failure([new FieldError([], "Invalid date")]) : success(date);
+            };
+
+            expect(map(D.string()("abc"), s => s.length)).toEqual(success(3));
+            expect(chain(D.string()("2024-01-01"), parseDate)).toEqual(success(new Date("2024-01-01")));
+            expect(chain(D.string()("soon"), parseDate)).toEqual(failure([new FieldError([], "Invalid date")]));
+        });
+    });
+});
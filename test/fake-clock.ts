@@ -0,0 +1,18 @@
+import { Clock } from "~/clock";
+
+/** A clock that advances instantly when sleeping, and records the delays */
+export function fakeClock() {
+    const clock = {
+        time: 0,
+        sleeps: [] as number[],
+        now: () => clock.time,
+        sleep: async (ms: number, signal?: AbortSignal) => {
+            if (signal?.aborted) {
+                throw signal.reason;
+            }
+            clock.sleeps.push(ms);
+            clock.time += ms;
+        },
+    };
+    return clock satisfies Clock;
+}
@@ -0,0 +1,202 @@
+import { expect, test, describe, vi } from "vitest";
+import { from, isFluent } from "~/fluent";
+import { none, some } from "~/maybe";
+import { chain, failure, isFailure, isSuccess, map, Result, success, unwrapOr } from "~/result";
+
+describe("Fluent", () => {
+    describe("Wrapping", () => {
+        test("from keeps the same own properties as the plain result", () => {
+            expect(from(success(42))).toEqual(success(42));
+            expect(from(failure("error"))).toEqual(failure("error"));
+            expect(Object.keys(from(success(42)))).toEqual(["value"]);
+        });
+
+        test("from serializes like the plain result", () => {
+            expect(JSON.stringify(from(success(42)))).toBe(JSON.stringify(success(42)));
+            expect(JSON.stringify(from(failure("error")))).toBe(JSON.stringify(failure("error")));
+        });
+
+        test("from returns the same wrapper when given a wrapper", () => {
+            const wrapped = from(success(42));
+            expect(from(wrapped)).toBe(wrapped);
+            expect(isFluent(wrapped)).toBe(true);
+            expect(isFluent(success(42))).toBe(false);
+        });
+
+        test("wrapped results work with the free functions", () => {
+            const wrapped = from<number, string>(success(21));
+
+            expect(isSuccess(wrapped)).toBe(true);
+            expect(
+                unwrapOr(
+                    map(wrapped, x => x * 2),
+                    0
+                )
+            ).toBe(42);
+        });
+
+        test("wrapped results narrow like plain results", () => {
+            const wrapped = from<number, string>(failure("error"));
+
+            if (isFailure(wrapped)) {
+                expect(wrapped.error).toBe("error");
+            }
+            if (wrapped.isFailure()) {
+                expect(wrapped.error).toBe("error");
+            } else {
+                expect.unreachable();
+            }
+        });
+
+        test("toResult returns a plain result", () => {
+            const plain = from(success(42)).toResult();
+
+            expect(isFluent(plain)).toBe(false);
+            expect(plain).toEqual(success(42));
+            expect(from(failure("error")).toResult()).toEqual(failure("error"));
+        });
+    });
+
+    describe("Methods", () => {
+        test("methods chain in reading order", () => {
+            const parse = (x: string): Result<number, string> => (isNaN(+x) ? failure("nan") : success(+x));
+            const value = from(parse("20"))
+                .map(x => x + 1)
+                .chain(x => success(x * 2))
+                .unwrapOr(0);
+
+            expect(value).toBe(42);
+            expect(
+                from(parse("x"))
+                    .map(x => x + 1)
+                    .unwrapOr(0)
+            ).toBe(0);
+        });
+
+        test("methods match the free functions", () => {
+            const ok: Result<number, string> = success(21);
+            const ko: Result<number, string> = failure("error");
+            const double = (x: number) => x * 2;
+            const half = (x: number) => (x % 2 === 0 ? success(x / 2) : failure("odd"));
+
+            for (const result of [ok, ko]) {
+                expect(from(result).map(double)).toEqual(map(result, double));
+                expect(from(result).chain(half)).toEqual(chain(result, half));
+            }
+        });
+
+        test("unwrap methods extract values", () => {
+            expect(from(success(42)).unwrap()).toBe(42);
+            expect(() => from(failure(new Error("boom"))).unwrap()).toThrow("boom");
+            expect(from<number, string>(failure("error")).unwrapOr()).toBeUndefined();
+            expect(from<number, string>(failure("error")).unwrapOr(7)).toBe(7);
+            expect(from<number, string>(failure("error")).unwrapOrElse(e => e.length)).toBe(5);
+        });
+
+        test("recover returns a wrapped success", () => {
+            const recovered = from<number, string>(failure("error")).recover(e => e.length);
+
+            expect(recovered).toEqual(success(5));
+            expect(recovered.map(x => x * 2).unwrap()).toBe(10);
+        });
+
+        test("match calls the right handler", () => {
+            const patterns = { success: vi.fn(() => "success"), failure: vi.fn(() => "failure") };
+
+            expect(from(success(42)).match(patterns)).toBe("success");
+            expect(patterns.success).toHaveBeenCalledWith(42);
+            expect(from(failure("error")).match(patterns)).toBe("failure");
+            expect(patterns.failure).toHaveBeenCalledWith("error");
+        });
+
+        test("matchAsync resolves the right handler", async () => {
+            const patterns = {
+                pending: () => "pending",
+                success: async () => "success",
+                failure: async () => "failure",
+            };
+
+            expect(await from(success(42)).matchAsync(patterns)).toBe("success");
+            expect(await from(failure("error")).matchAsync(patterns)).toBe("failure");
+        });
+
+        test("works with Maybe values", () => {
+            expect(from(some(42)).isSome()).toBe(true);
+            expect(from(none).isNone()).toBe(true);
+            expect(from(failure(null)).isNone()).toBe(false);
+            expect(from(none).toResult()).toBe(none);
+            expect(
+                from(none)
+                    .map(x => x)
+                    .unwrapOr(0)
+            ).toBe(0);
+        });
+
+        test("exposes the Maybe operations", () => {
+            const patterns = { some: (x: number) => `some ${x}`, none: () => "none" };
+
+            expect(from(some(42)).toNullable()).toBe(42);
+            expect(from(none).toNullable()).toBeNull();
+            expect(from(none).toUndefined()).toBeUndefined();
+            expect(from(failure("error")).toMaybe().isNone()).toBe(true);
+            expect(from(none).getOrElse(() => 0)).toBe(0);
+            expect(
+                from(some(42))
+                    .filterMaybe(x => x > 50)
+                    .orElseMaybe(() => some(7))
+                    .zipMaybe(some("a"))
+                    .unwrap()
+            ).toEqual([7, "a"]);
+            expect(from(some(42)).zipMaybe(none).isNone()).toBe(true);
+            expect(from(some(42)).matchMaybe(patterns)).toBe("some 42");
+            expect(from<number, null>(none).matchMaybe(patterns)).toBe("none");
+        });
+
+        test("async methods resolve to wrapped results", async () => {
+            const mapped = await from(success(20)).mapAsync(async x => x + 1);
+            const chained = await mapped.chainAsync(async x => success(x * 2));
+
+            expect(chained.unwrap()).toBe(42);
+            expect(await from(success(42)).tapAsync(async () => {})).toEqual(success(42));
+            expect((await from(failure("error")).orElseAsync(async () => success(1))).unwrap()).toBe(1);
+            expect((await from<number, string>(failure("error")).recoverAsync(async e => e.length)).unwrap()).toBe(5);
+        });
+
+        test("combinator methods match the free functions", () => {
+            const value = from<number, string>(success(21));
+            const error = from<number, string>(failure("error"));
+
+            expect(error.mapError(e => e.length)).toEqual(failure(5));
+            expect(
+                value.bimap(
+                    x => x * 2,
+                    e => e.length
+                )
+            ).toEqual(success(42));
+            expect(error.orElse(e => success(e.length))).toEqual(success(5));
+            expect(value.swap()).toEqual(failure(21));
+            expect(
+                value.filter(
+                    x => x > 100,
+                    () => "small"
+                )
+            ).toEqual(failure("small"));
+            expect(value.zip(success("x"))).toEqual(success([21, "x"]));
+            expect(value.zipWith(success(21), (a, b) => a + b)).toEqual(success(42));
+            expect(value.and(success("next"))).toEqual(success("next"));
+            expect(error.or(success(1))).toEqual(success(1));
+            expect(from(success(success(42))).flatten()).toEqual(success(42));
+        });
+
+        test("tap methods run side effects and keep chaining", () => {
+            const onValue = vi.fn();
+            const onError = vi.fn();
+
+            const value = from(success(42)).tap(onValue).tapError(onError).unwrap();
+
+            expect(value).toBe(42);
+            expect(onValue).toHaveBeenCalledWith(42);
+            expect(onError).not.toHaveBeenCalled();
+        });
+    });
+});
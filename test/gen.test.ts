@@ -0,0 +1,137 @@
+import { expect, expectTypeOf, test, describe, vi } from "vitest";
+import { bind, bindAsync, gen, genAsync } from "~/gen";
+import { failure, fromPromise, fromTryAsync, Result, success } from "~/result";
+import { defineError } from "~/tagged";
+
+class NotFound extends defineError("NotFound")<{ id: string }> {}
+class Forbidden extends defineError("Forbidden") {}
+
+const load = (id: string): Result<string, NotFound> => (id ? success(id) : failure(new NotFound({ id })));
+const check = (user: string): Result<number, Forbidden> => (user === "admin" ? success(1) : failure(new Forbidden()));
+
+describe("Generator do-notation", () => {
+    describe("gen", () => {
+        test("gen returns a success with the returned value", () => {
+            const result = gen(function* () {
+                const a = yield* bind(success(20));
+                const b = yield* bind(success(22));
+                return a + b;
+            });
+
+            expect(result).toEqual(success(42));
+        });
+
+        test("gen returns the first failure and skips the remaining steps", () => {
+            const error = new Error("test error");
+            const step = vi.fn(() => success(1));
+
+            const result = gen(function* () {
+                const a = yield* bind(success(1));
+                yield* bind(failure(error));
+                const b = yield* bind(step());
+                return a + b;
+            });
+
+            expect(result).toEqual(failure(error));
+            expect(step).not.toHaveBeenCalled();
+        });
+
+        test("gen runs finally blocks when stopping early", () => {
+            const cleanup = vi.fn();
+
+            const result = gen(function* () {
+                try {
+                    return yield* bind(failure("boom"));
+                } finally {
+                    cleanup();
+                }
+            });
+
+            expect(result).toEqual(failure("boom"));
+            expect(cleanup).toHaveBeenCalledOnce();
+        });
+
+        test("gen infers the union of every yielded error type", () => {
+            const parse = (x: string): Result<number, "nan"> => (isNaN(+x) ? failure("nan") : success(+x));
+            const positive = (x: number): Result<number, "negative"> => (x < 0 ? failure("negative") : success(x));
+
+            const result: Result<number, "nan" | "negative"> = gen(function* () {
+                const n = yield* bind(parse("-5"));
+                return yield* bind(positive(n));
+            });
+
+            expect(result).toEqual(failure("negative"));
+        });
+
+        test("gen infers the union of unrelated error classes", () => {
+            const result = gen(function* () {
+                const user = yield* bind(load("guest"));
+                return yield* bind(check(user));
+            });
+
+            expectTypeOf(result).toEqualTypeOf<Result<number, NotFound | Forbidden>>();
+            expect(result).toEqual(failure(new Forbidden()));
+        });
+
+        test("gen does not catch thrown errors", () => {
+            const error = new Error("thrown");
+            expect(() =>
+                gen(function* () {
+                    yield* bind(success(1));
+                    throw error;
+                })
+            ).toThrow(error);
+        });
+    });
+
+    describe("genAsync", () => {
+        test("genAsync awaits promises of results", async () => {
+            const result = await genAsync(async function* () {
+                const a = yield* bindAsync(fromPromise<number, Error>(Promise.resolve(20)));
+                const b = yield* bindAsync(fromTryAsync<number, Error>(async () => 22));
+                return a + b;
+            });
+
+            expect(result).toEqual(success(42));
+        });
+
+        test("genAsync accepts plain results", async () => {
+            const result = await genAsync(async function* () {
+                const a = yield* bindAsync(success(40));
+                const b = yield* bind(success(2));
+                return a + b;
+            });
+
+            expect(result).toEqual(success(42));
+        });
+
+        test("genAsync infers the union of unrelated error classes", async () => {
+            const result = await genAsync(async function* () {
+                const user = yield* bindAsync(Promise.resolve(load("")));
+                return yield* bind(check(user));
+            });
+
+            expectTypeOf(result).toEqualTypeOf<Result<number, NotFound | Forbidden>>();
+            expect(result).toEqual(failure(new NotFound({ id: "" })));
+        });
+
+        test("genAsync returns the first failure and skips the remaining steps", async () => {
+            const error = new Error("test error");
+            const step = vi.fn(async () => 1);
+            const cleanup = vi.fn();
+
+            const result = await genAsync(async function* () {
+                try {
+                    yield* bindAsync(fromPromise(Promise.reject(error)));
+                    return yield* bindAsync(fromTryAsync(step));
+                } finally {
+                    cleanup();
+                }
+            });
+
+            expect(result).toEqual(failure(error));
+            expect(step).not.toHaveBeenCalled();
+            expect(cleanup).toHaveBeenCalledOnce();
+        });
+    });
+});
@@ -0,0 +1,161 @@
+import { expect, test, describe, vi } from "vitest";
+import {
+    filterMap,
+    filterMapAsync,
+    partition,
+    partitionAsync,
+    traverse,
+    traverseAsync,
+    tryReduce,
+    tryReduceAsync,
+} from "~/iterable";
+import { none, some } from "~/maybe";
+import { all, any, failure, Result, success } from "~/result";
+
+const parse = (x: string): Result<number, string> => (isNaN(+x) ? failure(`${x} is not a number`) : success(+x));
+
+function* generate<T>(items: T[], pulled: T[] = []): Generator<T> {
+    for (const item of items) {
+        pulled.push(item);
+        yield item;
+    }
+}
+
+async function* generateAsync<T>(items: T[], pulled: T[] = []): AsyncGenerator<T> {
+    for (const item of items) {
+        pulled.push(item);
+        yield item;
+    }
+}
+
+describe("Iterable", () => {
+    describe("partition", () => {
+        test("partition splits values and errors in order", () => {
+            const results = [success(1), failure("a"), success(2), failure("b")];
+
+            expect(partition(results)).toEqual({ successes: [1, 2], failures: ["a", "b"] });
+        });
+
+        test("partition accepts any iterable", () => {
+            expect(partition(generate([success(1), failure("a")]))).toEqual({ successes: [1], failures: ["a"] });
+        });
+    });
+
+    describe("traverse", () => {
+        test("traverse maps items and collects the values", () => {
+            expect(traverse(["1", "2", "3"], parse)).toEqual(success([1, 2, 3]));
+        });
+
+        test("traverse stops at the first failure", () => {
+            const pulled: string[] = [];
+            const result = traverse(generate(["1", "x", "3"], pulled), parse);
+
+            expect(result).toEqual(failure("x is not a number"));
+            expect(pulled).toEqual(["1", "x"]);
+        });
+
+        test("traverse passes the index", () => {
+            const fn = vi.fn((item: string, index: number) => success(`${index}:${item}`));
+
+            expect(traverse(new Set(["a", "b"]), fn)).toEqual(success(["0:a", "1:b"]));
+        });
+    });
+
+    describe("filterMap", () => {
+        test("filterMap keeps the values of Some results", () => {
+            const result = filterMap(["1", "x", "3"], x => (isNaN(+x) ? none : some(+x)));
+
+            expect(result).toEqual([1, 3]);
+        });
+    });
+
+    describe("tryReduce", () => {
+        test("tryReduce reduces items with a function that might fail", () => {
+            const result = tryReduce(["1", "2", "3"], (sum, x) => (isNaN(+x) ? failure(x) : success(sum + +x)), 0);
+
+            expect(result).toEqual(success(6));
+        });
+
+        test("tryReduce stops at the first failure", () => {
+            const pulled: string[] = [];
+            const result = tryReduce(
+                generate(["1", "x", "3"], pulled),
+                (sum, x) => (isNaN(+x) ? failure(x) : success(sum + +x)),
+                0
+            );
+
+            expect(result).toEqual(failure("x"));
+            expect(pulled).toEqual(["1", "x"]);
+        });
+
+        test("tryReduce returns the initial value for empty iterables", () => {
+            expect(tryReduce([], () => failure("never"), 42)).toEqual(success(42));
+        });
+    });
+
+    describe("all and any", () => {
+        test("all and any accept any iterable", () => {
+            expect(all(new Set([success(1), success(2)]))).toEqual(success([1, 2]));
+            expect(any(generate([failure("a"), success(2)]))).toEqual(success(2));
+        });
+    });
+
+    describe("Async variants", () => {
+        test("partitionAsync consumes async iterables and promises of results", async () => {
+            const results = generateAsync([success(1), failure("a")]);
+
+            expect(await partitionAsync(results)).toEqual({ successes: [1], failures: ["a"] });
+            expect(await partitionAsync([Promise.resolve(success(1)), failure("a")])).toEqual({
+                successes: [1],
+                failures: ["a"],
+            });
+        });
+
+        test("traverseAsync maps items with async functions", async () => {
+            const result = await traverseAsync(generateAsync(["1", "2"]), async x => parse(x));
+
+            expect(result).toEqual(success([1, 2]));
+        });
+
+        test("traverseAsync pulls items lazily and stops at the first failure", async () => {
+            const pulled: string[] = [];
+            const result = await traverseAsync(generateAsync(["1", "x", "3"], pulled), parse);
+
+            expect(result).toEqual(failure("x is not a number"));
+            expect(pulled).toEqual(["1", "x"]);
+        });
+
+        test("traverseAsync closes the iterator at the first failure", async () => {
+            const cleanup = vi.fn();
+            async function* items() {
+                try {
+                    yield "x";
+                    yield "1";
+                } finally {
+                    cleanup();
+                }
+            }
+
+            await traverseAsync(items(), parse);
+
+            expect(cleanup).toHaveBeenCalledOnce();
+        });
+
+        test("filterMapAsync keeps the values of Some results", async () => {
+            const result = await filterMapAsync(generateAsync(["1", "x", "3"]), async x =>
+                isNaN(+x) ? none : some(+x)
+            );
+
+            expect(result).toEqual([1, 3]);
+        });
+
+        test("tryReduceAsync reduces items and stops at the first failure", async () => {
+            const pulled: string[] = [];
+            const reducer = async (sum: number, x: string) => (isNaN(+x) ? failure(x) : success(sum + +x));
+
+            expect(await tryReduceAsync(generateAsync(["1", "2"]), reducer, 0)).toEqual(success(3));
+            expect(await tryReduceAsync(generateAsync(["1", "x", "3"], pulled), reducer, 0)).toEqual(failure("x"));
+            expect(pulled).toEqual(["1", "x"]);
+        });
+    });
+});
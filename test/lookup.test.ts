@@ -0,0 +1,85 @@
+import { expect, test, describe } from "vitest";
+import { at, find, get, head, last, path, prop } from "~/lookup";
+import { Maybe, none, some } from "~/maybe";
+
+interface Order {
+    id: string;
+    note?: string;
+    items: { name: string; price: number }[];
+    totals: Map<string, number>;
+}
+
+const order: Order = {
+    id: "a1",
+    items: [
+        { name: "Tea", price: 3 },
+        { name: "Cake", price: 5 },
+    ],
+    totals: new Map([["net", 8]]),
+};
+
+describe("Lookup", () => {
+    test("at returns the element at an index", () => {
+        expect(at([1, 2, 3], 0)).toEqual(some(1));
+        expect(at([1, 2, 3], -1)).toEqual(some(3));
+        expect(at([1, 2, 3], 3)).toBe(none);
+        expect(at([1, 2, 3], -4)).toBe(none);
+        expect(at([1, 2, 3], 0.5)).toBe(none);
+        expect(at([undefined], 0)).toEqual(some(undefined));
+    });
+
+    test("get returns the value of a map key", () => {
+        const map = new Map<string, number | undefined>([
+            ["a", 1],
+            ["b", undefined],
+        ]);
+
+        expect(get(map, "a")).toEqual(some(1));
+        expect(get(map, "b")).toEqual(some(undefined));
+        expect(get(map, "c")).toBe(none);
+    });
+
+    test("prop returns own properties that are not undefined", () => {
+        const note: Maybe<string> = prop(order, "note");
+
+        expect(prop(order, "id")).toEqual(some("a1"));
+        expect(note).toBe(none);
+        expect(prop({} as Record<string, number>, "toString")).toBe(none);
+    });
+
+    test("find returns the first matching item", () => {
+        const values: (string | number)[] = ["a", 1, 2];
+        const number: Maybe<number> = find(values, x => typeof x === "number");
+
+        expect(number).toEqual(some(1));
+        expect(find(new Set([1, 2, 3]), (x, i) => x > 1 && i > 1)).toEqual(some(3));
+        expect(find([1, 2], x => x > 2)).toBe(none);
+    });
+
+    test("head and last return the first and last items", () => {
+        expect(head([1, 2, 3])).toEqual(some(1));
+        expect(head(new Set(["a"]))).toEqual(some("a"));
+        expect(head([])).toBe(none);
+        expect(last([1, 2, 3])).toEqual(some(3));
+        expect(last(new Set(["a", "b"]))).toEqual(some("b"));
+        expect(last([])).toBe(none);
+    });
+
+    test("path follows keys and indices through objects, arrays and maps", () => {
+        const price: Maybe<number> = path(order, ["items", 1, "price"]);
+        const net: Maybe<number> = path(order, ["totals", "net"]);
+
+        expect(price).toEqual(some(5));
+        expect(net).toEqual(some(8));
+        expect(path(order, ["items", -1, "name"])).toEqual(some("Cake"));
+        expect(path(order, [])).toEqual(some(order));
+    });
+
+    test("path returns None when a step is missing", () => {
+        expect(path(order, ["items", 5, "price"])).toBe(none);
+        expect(path(order, ["note"])).toBe(none);
+        expect(path(order, ["totals", "gross"])).toBe(none);
+        expect(path(order, ["id", "length"])).toBe(none);
+        expect(path(null as Order | null, ["id"])).toBe(none);
+    });
+});
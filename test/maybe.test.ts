@@ -1,6 +1,43 @@
 import { expect, test, describe, vi } from "vitest";
-import { none, some, isSome, isNone, Maybe } from "~/maybe";
-import { failure, success, unwrap, unwrapOr, unwrapOrElse, map, chain } from "~/result";
+import {
+    none,
+    some,
+    isSome,
+    isNone,
+    Maybe,
+    allMaybe,
+    anyMaybe,
+    fromMaybe,
+    toMaybe,
+    fromNullableMaybe,
+    toNullable,
+    toUndefined,
+    getOrElse,
+    filterMaybe,
+    orElseMaybe,
+    zipMaybe,
+    firstSome,
+    matchMaybe,
+} from "~/maybe";
+import {
+    and,
+    chain,
+    failure,
+    filter,
+    flatten,
+    isSuccess,
+    map,
+    mapError,
+    or,
+    orElse,
+    success,
+    tap,
+    tapError,
+    unwrap,
+    unwrapOr,
+    unwrapOrElse,
+    zip,
+} from "~/result";
 
 describe("Maybe", () => {
     describe("Type guards", () => {
@@ -18,6 +55,7 @@ describe("Maybe", () => {
 
             expect(isNone(someValue)).toBe(false);
             expect(isNone(noneValue)).toBe(true);
+            expect(isNone<number>(someValue)).toBe(false);
         });
     });
 
@@ -77,14 +115,200 @@ describe("Maybe", () => {
             expect(isNone(chainedNone)).toBe(true);
         });
 
-        test("Maybe can be constructed from Result functions", () => {
-            // Test that Maybe values can be constructed using Result functions
+        test("Some can be constructed from Result functions", () => {
             const someFromSuccess: Maybe<number> = success(42);
-            const noneFromFailure: Maybe<number> = failure(null);
 
             expect(isSome(someFromSuccess)).toBe(true);
             expect(unwrap(someFromSuccess)).toBe(42);
-            expect(isNone(noneFromFailure)).toBe(true);
+        });
+
+        test("Failures are not None", () => {
+            expect(isNone(failure(null))).toBe(false);
+            expect(isNone(failure(new Error("boom")))).toBe(false);
+            expect(isNone(success(null))).toBe(false);
+            expect(isNone(null)).toBe(false);
+            expect(failure(null)).not.toEqual(none);
+        });
+
+        test("None keeps its identity through copies and combinators", () => {
+            const noneValue = none as Maybe<number>;
+
+            expect(isNone({ ...none })).toBe(true);
+            expect(isNone(map(noneValue, x => x * 2))).toBe(true);
+            expect(isNone(JSON.parse(JSON.stringify(none)))).toBe(false);
+        });
+
+        test("Maybe works with Result combinators", () => {
+            const someValue = some(21) as Maybe<number>;
+            const noneValue = none as Maybe<number>;
+            const fn = vi.fn();
+
+            expect(
+                isSuccess(
+                    filter(
+                        someValue,
+                        x => x > 0,
+                        () => null
+                    )
+                )
+            ).toBe(true);
+            // filter creates its own failure, which is not None
+            expect(
+                filter(
+                    someValue,
+                    x => x < 0,
+                    () => "negative"
+                )
+            ).toEqual(failure("negative"));
+            expect(
+                isNone(
+                    filter(
+                        noneValue,
+                        x => x > 0,
+                        () => null
+                    )
+                )
+            ).toBe(true);
+
+            expect(unwrap(orElse(noneValue, () => some(1)))).toBe(1);
+            expect(unwrap(or(noneValue, someValue))).toBe(21);
+            expect(isNone(and(noneValue, someValue))).toBe(true);
+            expect(unwrap(zip(someValue, some("x")))).toEqual([21, "x"]);
+            expect(isNone(zip(someValue, noneValue))).toBe(true);
+            expect(unwrap(flatten(some(someValue)))).toBe(21);
+            expect(mapError(noneValue, () => "missing")).toEqual(failure("missing"));
+
+            tap(noneValue, fn);
+            expect(fn).not.toHaveBeenCalled();
+        });
+
+        test("Result combinators keep the Maybe type", () => {
+            const maybe = some(21) as Maybe<number>;
+
+            const mapped: Maybe<number> = map(maybe, x => x * 2);
+            const chained: Maybe<string> = chain(maybe, x => (x > 0 ? some(`${x}`) : none));
+            const tapped: Maybe<number> = tapError(
+                tap(maybe, () => {}),
+                () => {}
+            );
+            const zipped: Maybe<[number, number]> = zip(maybe, mapped);
+            const both: Maybe<number> = and(maybe, mapped);
+            const either: Maybe<number> = or(none as Maybe<number>, maybe);
+            const flat: Maybe<number> = flatten(some(maybe) as Maybe<Maybe<number>>);
+
+            expect(mapped).toEqual(some(42));
+            expect(chained).toEqual(some("21"));
+            expect(tapped).toBe(maybe);
+            expect(zipped).toEqual(some([21, 42]));
+            expect(both).toBe(mapped);
+            expect(either).toBe(maybe);
+            expect(flat).toBe(maybe);
+            expect(map(none as Maybe<number>, x => x * 2)).toBe(none);
+        });
+    });
+
+    describe("Collection operations", () => {
+        test("allMaybe returns all values when every maybe is Some", () => {
+            const result: Maybe<[number, string]> = allMaybe([some(1), some("two")]);
+
+            expect(result).toEqual(some([1, "two"]));
+        });
+
+        test("allMaybe returns None when any maybe is None", () => {
+            expect(isNone(allMaybe([some(1), none]))).toBe(true);
+        });
+
+        test("anyMaybe returns the first Some", () => {
+            const result: Maybe<number | string> = anyMaybe([none as Maybe<number>, some("two"), some(3)]);
+
+            expect(result).toEqual(some("two"));
+        });
+
+        test("anyMaybe returns None when every maybe is None", () => {
+            expect(anyMaybe([none, none])).toBe(none);
+            expect(anyMaybe([])).toBe(none);
+        });
+    });
+
+    describe("Conversions", () => {
+        test("fromMaybe converts None to a failure with null or the given error", () => {
+            expect(fromMaybe(some(1))).toEqual(success(1));
+            expect(fromMaybe(none)).toEqual(failure(null));
+            expect(isNone(fromMaybe(none))).toBe(false);
+            expect(fromMaybe(none, "missing")).toEqual(failure("missing"));
+        });
+
+        test("toMaybe discards the error", () => {
+            expect(toMaybe(success(1))).toEqual(some(1));
+            expect(toMaybe(failure(new Error("boom")))).toBe(none);
+        });
+
+        test("fromNullableMaybe converts null and undefined to None", () => {
+            expect(fromNullableMaybe(0)).toEqual(some(0));
+            expect(fromNullableMaybe(null)).toBe(none);
+            expect(fromNullableMaybe(undefined)).toBe(none);
+        });
+
+        test("toNullable and toUndefined unwrap to a nullable value", () => {
+            expect(toNullable(some(1))).toBe(1);
+            expect(toNullable(none)).toBeNull();
+            expect(toUndefined(some(1))).toBe(1);
+            expect(toUndefined(none)).toBeUndefined();
+        });
+    });
+
+    describe("Operations", () => {
+        test("getOrElse computes the fallback only for None", () => {
+            const fn = vi.fn(() => 0);
+
+            expect(getOrElse(some(1), fn)).toBe(1);
+            expect(fn).not.toHaveBeenCalled();
+            expect(getOrElse(none, fn)).toBe(0);
+        });
+
+        test("filterMaybe turns values that fail the predicate into None", () => {
+            const value = some<string | number>(1);
+            const narrowed: Maybe<number> = filterMaybe(value, x => typeof x === "number");
+
+            expect(narrowed).toEqual(some(1));
+            expect(filterMaybe(some(1), x => x > 1)).toBe(none);
+            expect(filterMaybe(none, () => true)).toBe(none);
+        });
+
+        test("orElseMaybe computes another maybe only for None", () => {
+            const fn = vi.fn(() => some(2));
+
+            expect(orElseMaybe(some(1), fn)).toEqual(some(1));
+            expect(fn).not.toHaveBeenCalled();
+            expect(orElseMaybe(none, fn)).toEqual(some(2));
+        });
+
+        test("zipMaybe pairs two values, or returns None", () => {
+            expect(zipMaybe(some(1), some("a"))).toEqual(some([1, "a"]));
+            expect(zipMaybe(some(1), none)).toBe(none);
+            expect(zipMaybe(none, some("a"))).toBe(none);
+        });
+
+        test("firstSome computes candidates until one is Some", () => {
+            const last = vi.fn(() => some(3));
+
+            expect(
+                firstSome(
+                    () => none,
+                    () => some(2),
+                    last
+                )
+            ).toEqual(some(2));
+            expect(last).not.toHaveBeenCalled();
+            expect(firstSome<number>(() => none)).toBe(none);
+            expect(firstSome()).toBe(none);
+        });
+
+        test("matchMaybe calls the matching handler", () => {
+            const patterns = { some: (x: number) => `some ${x}`, none: () => "none" };
+
+            expect(matchMaybe(some(1), patterns)).toBe("some 1");
+            expect(matchMaybe(none, patterns)).toBe("none");
         });
     });
 });
@@ -1,6 +1,6 @@
 import { expect, test, describe } from "vitest";
-import { Outcome, SuccessOutcome, FailureOutcome } from "~/outcome";
-import { success, failure, fromOutcome, isSuccess, isFailure } from "~/result";
+import { Outcome, SuccessOutcome, FailureOutcome, toOutcome, to, outcomeOf, mapOutcome, chainOutcome } from "~/outcome";
+import { success, failure, fromOutcome, isSuccess, isFailure, Result } from "~/result";
 
 describe("Outcome", () => {
     describe("Type definitions", () => {
@@ -74,4 +74,94 @@ describe("Outcome", () => {
             expect(processOutcome(failureValue)).toBe("Failure: it failed");
         });
     });
+
+    describe("Conversion from Result", () => {
+        test("toOutcome converts results to tuples", () => {
+            expect(toOutcome(success(42))).toEqual([undefined, 42]);
+            expect(toOutcome(failure("error"))).toEqual(["error", undefined]);
+        });
+
+        test("toOutcome and fromOutcome round trip", () => {
+            const result = failure(new Error("boom")) as Result<number, Error>;
+
+            expect(fromOutcome(toOutcome(result))).toEqual(result);
+        });
+    });
+
+    describe("Go-style tuples", () => {
+        test("to resolves with the value or the rejection", async () => {
+            const error = new Error("boom");
+
+            expect(await to(Promise.resolve(42))).toEqual([undefined, 42]);
+            expect(await to(Promise.reject(error))).toEqual([error, undefined]);
+        });
+
+        test("outcomeOf catches thrown errors", () => {
+            const error = new Error("boom");
+
+            expect(outcomeOf(() => 42)).toEqual([undefined, 42]);
+            expect(
+                outcomeOf(() => {
+                    throw error;
+                })
+            ).toEqual([error, undefined]);
+        });
+
+        test("outcomeOf returns a promise for async functions", async () => {
+            const error = new Error("boom");
+
+            expect(await outcomeOf(async () => 42)).toEqual([undefined, 42]);
+            expect(
+                await outcomeOf(async () => {
+                    throw error;
+                })
+            ).toEqual([error, undefined]);
+        });
+
+        test("to and outcomeOf wrap null and undefined errors, so they are not read as successes", async () => {
+            const [rejected] = await to(Promise.reject(undefined));
+            const [thrown] = outcomeOf((): number => {
+                throw null;
+            });
+            const [asyncThrown] = await outcomeOf(async () => {
+                throw undefined;
+            });
+
+            expect(rejected).toBeInstanceOf(Error);
+            expect((rejected as Error).cause).toBeUndefined();
+            expect(thrown).toEqual(new Error("Failed with null"));
+            expect((thrown as Error).cause).toBeNull();
+            expect(asyncThrown).toBeInstanceOf(Error);
+        });
+
+        test("checking the error narrows the value", async () => {
+            const [error, value] = await to<{ name: string }, Error>(Promise.resolve({ name: "Ada" }));
+
+            if (error == null) {
+                const name: string = value.name;
+                expect(name).toBe("Ada");
+            } else {
+                const message: string = error.message;
+                expect.fail(message);
+            }
+        });
+    });
+
+    describe("Combinators", () => {
+        test("mapOutcome maps the value", () => {
+            expect(mapOutcome([undefined, 21] as Outcome<number, string>, x => x * 2)).toEqual([undefined, 42]);
+            expect(mapOutcome(["error", undefined] as Outcome<number, string>, x => x * 2)).toEqual([
+                "error",
+                undefined,
+            ]);
+        });
+
+        test("chainOutcome chains into another outcome", () => {
+            const half = (x: number): Outcome<number, string> => (x % 2 === 0 ? [null, x / 2] : ["odd", undefined]);
+
+            expect(chainOutcome([null, 42] as Outcome<number, string>, half)).toEqual([null, 21]);
+            expect(chainOutcome([null, 21] as Outcome<number, string>, half)).toEqual(["odd", undefined]);
+            expect(chainOutcome(["error", undefined] as Outcome<number, string>, half)).toEqual(["error", undefined]);
+        });
+    });
 });
@@ -0,0 +1,63 @@
+import { expect, test, describe, vi } from "vitest";
+import { flow, pipe } from "~/pipe";
+
+describe("Pipe", () => {
+    describe("pipe", () => {
+        test("pipe returns the value when given no functions", () => {
+            expect(pipe(42)).toBe(42);
+        });
+
+        test("pipe applies functions from left to right", () => {
+            const result: string = pipe(
+                20,
+                x => x + 1,
+                x => x * 2,
+                x => `${x}`
+            );
+
+            expect(result).toBe("42");
+        });
+
+        test("pipe calls each function once with the previous output", () => {
+            const a = vi.fn((x: number) => x + 1);
+            const b = vi.fn((x: number) => x * 2);
+
+            pipe(1, a, b);
+
+            expect(a).toHaveBeenCalledWith(1);
+            expect(b).toHaveBeenCalledWith(2);
+        });
+    });
+
+    describe("flow", () => {
+        test("flow composes functions from left to right", () => {
+            const fn = flow(
+                (a: number, b: number) => a + b,
+                x => x * 2,
+                x => `${x}`
+            );
+
+            expect(fn(20, 1)).toBe("42");
+        });
+
+        test("flow with one function behaves like that function", () => {
+            const fn = flow((x: string) => x.length);
+
+            expect(fn("hello")).toBe(5);
+        });
+
+        test("flow passes this to the first function", () => {
+            const obj = {
+                base: 40,
+                add: flow(
+                    function (this: { base: number }, x: number) {
+                        return this.base + x;
+                    },
+                    x => x
+                ),
+            };
+
+            expect(obj.add(2)).toBe(42);
+        });
+    });
+});
@@ -0,0 +1,145 @@
+import { EventEmitter } from "node:events";
+import { expect, test, describe, expectTypeOf } from "vitest";
+import { onceResult, promisifyResult } from "~/promisify";
+import { failure, Result, success } from "~/result";
+import { AbortedError } from "~/timeout";
+
+function readConfig(name: string, strict: boolean, callback: (error: Error | null, value?: string) => void): void {
+    if (name === "missing") {
+        callback(new Error("ENOENT"));
+    } else {
+        callback(null, strict ? name.toUpperCase() : name);
+    }
+}
+
+function stat(path: string, callback: (error: Error | null, size: number, modified: boolean) => void): void {
+    setTimeout(() => callback(null, path.length, true), 0);
+}
+
+describe("Promisify", () => {
+    describe("promisifyResult", () => {
+        test("promisifyResult infers the arguments and resolves with the value", async () => {
+            const read = promisifyResult(readConfig);
+            expectTypeOf(read).parameters.toEqualTypeOf<[string, boolean]>();
+
+            const result = await read("app", true);
+            expectTypeOf(result).toEqualTypeOf<Result<string | undefined, Error>>();
+            expect(result).toEqual(success("APP"));
+        });
+
+        test("promisifyResult fails with the callback error", async () => {
+            const result = await promisifyResult(readConfig)("missing", false);
+
+            expect(result).toEqual(failure(new Error("ENOENT")));
+        });
+
+        test("promisifyResult resolves with a tuple for callbacks with several values", async () => {
+            const result = await promisifyResult(stat)("a/b");
+
+            expectTypeOf(result).toEqualTypeOf<Result<[number, boolean], Error>>();
+            expect(result).toEqual(success([3, true]));
+        });
+
+        test("promisifyResult resolves with undefined for callbacks without values", async () => {
+            const done = (callback: (error?: Error) => void) => callback();
+            const result = await promisifyResult(done)();
+
+            expect(result).toEqual(success(undefined));
+        });
+
+        test("promisifyResult returns thrown errors as failures", async () => {
+            const error = new Error("boom");
+            const result = await promisifyResult((_callback: (error: Error | null) => void) => {
+                throw error;
+            })();
+
+            expect(result).toEqual(failure(error));
+        });
+
+        test("promisifyResult ignores later calls of the callback", async () => {
+            const twice = (callback: (error: Error | null, value: number) => void) => {
+                callback(null, 1);
+                callback(null, 2);
+            };
+
+            expect(await promisifyResult(twice)()).toEqual(success(1));
+        });
+
+        test("promisifyResult passes this through to methods", async () => {
+            const store = {
+                prefix: "user:",
+                get(this: { prefix: string }, id: number, callback: (error: Error | null, key: string) => void) {
+                    callback(null, this.prefix + id);
+                },
+            };
+            const get = promisifyResult(store.get);
+            const bound = { prefix: store.prefix, get };
+
+            expect(await bound.get(1)).toEqual(success("user:1"));
+            expect(await get.call(store, 2)).toEqual(success("user:2"));
+        });
+    });
+
+    describe("onceResult", () => {
+        test("onceResult succeeds with the argument of the event", async () => {
+            const emitter = new EventEmitter();
+            const promise = onceResult<number>(emitter, "ready");
+            emitter.emit("ready", 42);
+
+            expect(await promise).toEqual(success(42));
+            expect(emitter.listenerCount("ready")).toBe(0);
+            expect(emitter.listenerCount("error")).toBe(0);
+        });
+
+        test("onceResult succeeds with a tuple when the event has several arguments", async () => {
+            const emitter = new EventEmitter();
+            const promise = onceResult<[string, number]>(emitter, "message");
+            emitter.emit("message", "hello", 1);
+
+            expect(await promise).toEqual(success(["hello", 1]));
+        });
+
+        test("onceResult fails with the error event if it fires first", async () => {
+            const emitter = new EventEmitter();
+            const error = new Error("boom");
+            const promise = onceResult<void, Error>(emitter, "ready");
+            emitter.emit("error", error);
+            emitter.emit("ready");
+
+            expect(await promise).toEqual(failure(error));
+            expect(emitter.listenerCount("ready")).toBe(0);
+        });
+
+        test("onceResult listens for a custom error event, or none", async () => {
+            const emitter = new EventEmitter();
+            const custom = onceResult(emitter, "ready", { errorEvent: "fail" });
+            const ignored = onceResult(emitter, "ready", { errorEvent: null });
+            emitter.emit("fail", "nope");
+            emitter.emit("ready", 1);
+
+            expect(await custom).toEqual(failure("nope"));
+            expect(await ignored).toEqual(success(1));
+        });
+
+        test("onceResult fails with an AbortedError when the signal is aborted", async () => {
+            const emitter = new EventEmitter();
+            const controller = new AbortController();
+            const promise = onceResult(emitter, "ready", { signal: controller.signal });
+            controller.abort("stop");
+
+            const result = await promise;
+            expect(result).toEqual(failure(expect.any(AbortedError)));
+            expect((result as { error: AbortedError }).error.cause).toBe("stop");
+            expect(emitter.listenerCount("ready")).toBe(0);
+            expect(emitter.listenerCount("error")).toBe(0);
+        });
+
+        test("onceResult fails at once if the signal is already aborted", async () => {
+            const emitter = new EventEmitter();
+            const result = await onceResult(emitter, "ready", { signal: AbortSignal.abort() });
+
+            expect(result).toEqual(failure(expect.any(AbortedError)));
+            expect(emitter.listenerCount("ready")).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,176 @@
+import { expect, test, describe, vi } from "vitest";
+import { fakeClock } from "!/fake-clock";
+import { idle, pending, refreshing } from "~/async";
+import { createResource } from "~/resource";
+import { failure, isFailure, Result, success } from "~/result";
+import { AbortedError } from "~/timeout";
+
+/** A fetcher whose requests are resolved by the test, in any order */
+function controlledFetcher<V>() {
+    const requests: { signal: AbortSignal; resolve: (result: Result<V, string>) => void }[] = [];
+    const fetcher = vi.fn(
+        (signal: AbortSignal) => new Promise<Result<V, string>>(resolve => requests.push({ signal, resolve }))
+    );
+    return { fetcher, requests };
+}
+
+describe("Resource", () => {
+    test("createResource starts idle and moves through pending to the result", async () => {
+        const { fetcher, requests } = controlledFetcher<number>();
+        const resource = createResource(fetcher);
+
+        expect(resource.getSnapshot()).toBe(idle);
+        const loading = resource.load();
+        expect(resource.getSnapshot()).toBe(pending);
+
+        requests[0].resolve(success(1));
+        expect(await loading).toEqual(success(1));
+        expect(resource.getSnapshot()).toEqual(success(1));
+    });
+
+    test("getSnapshot returns the same object until the state changes", async () => {
+        const resource = createResource(async () => success(1));
+        await resource.load();
+
+        expect(resource.getSnapshot()).toBe(resource.getSnapshot());
+    });
+
+    test("subscribe notifies listeners of every state change", async () => {
+        const { fetcher, requests } = controlledFetcher<number>();
+        const resource = createResource(fetcher);
+        const states: unknown[] = [];
+        const unsubscribe = resource.subscribe(() => states.push(resource.getSnapshot()));
+
+        const loading = resource.load();
+        requests[0].resolve(success(1));
+        await loading;
+        unsubscribe();
+        const reloading = resource.refetch();
+        requests[1].resolve(success(2));
+        await reloading;
+
+        expect(states).toEqual([pending, success(1)]);
+    });
+
+    test("a listener that throws does not reject the request", async () => {
+        const resource = createResource(async () => success(1));
+        const listener = vi.fn();
+        resource.subscribe(() => {
+            throw new Error("render failed");
+        });
+        resource.subscribe(listener);
+
+        expect(await resource.load()).toEqual(success(1));
+        expect(resource.getSnapshot()).toEqual(success(1));
+        expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    test("refetch keeps the previous result while refreshing", async () => {
+        const { fetcher, requests } = controlledFetcher<number>();
+        const resource = createResource(fetcher);
+
+        const loading = resource.load();
+        requests[0].resolve(failure("down"));
+        await loading;
+        const reloading = resource.refetch();
+
+        expect(resource.getSnapshot()).toEqual(refreshing(failure("down")));
+        requests[1].resolve(success(2));
+        await reloading;
+        expect(resource.getSnapshot()).toEqual(success(2));
+    });
+
+    test("refetch aborts the request in flight, whose late result is ignored", async () => {
+        const { fetcher, requests } = controlledFetcher<string>();
+        const resource = createResource(fetcher);
+
+        const first = resource.load();
+        const second = resource.refetch();
+
+        expect(requests[0].signal.aborted).toBe(true);
+        requests[1].resolve(success("new"));
+        requests[0].resolve(success("old"));
+
+        const superseded = await first;
+        expect(isFailure(superseded) && superseded.error).toBeInstanceOf(AbortedError);
+        expect(await second).toEqual(success("new"));
+        expect(resource.getSnapshot()).toEqual(success("new"));
+    });
+
+    test("load deduplicates requests in flight", async () => {
+        const { fetcher, requests } = controlledFetcher<number>();
+        const resource = createResource(fetcher);
+
+        const a = resource.load();
+        const b = resource.load();
+        requests[0].resolve(success(1));
+
+        expect(a).toBe(b);
+        expect(await b).toEqual(success(1));
+        expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    test("load returns fresh results without fetching", async () => {
+        const clock = fakeClock();
+        let count = 0;
+        const fetcher = vi.fn(async () => success(++count));
+        const resource = createResource(fetcher, { staleTime: 1000, clock });
+
+        await resource.load();
+        clock.time = 999;
+        expect(await resource.load()).toEqual(success(1));
+        clock.time = 1000;
+        expect(await resource.load()).toEqual(success(2));
+        expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    test("load fetches again after a failure, even within the stale time", async () => {
+        const clock = fakeClock();
+        const fetcher = vi.fn<() => Promise<Result<number, string>>>();
+        fetcher.mockResolvedValueOnce(failure("offline")).mockResolvedValueOnce(success(1));
+        const resource = createResource(fetcher, { staleTime: 10_000, clock });
+
+        expect(await resource.load()).toEqual(failure("offline"));
+        clock.time = 1;
+        expect(await resource.load()).toEqual(success(1));
+        expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    test("load fetches again by default", async () => {
+        const fetcher = vi.fn(async () => success(1));
+        const resource = createResource(fetcher);
+
+        await resource.load();
+        await resource.load();
+
+        expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    test("cancel aborts the request and goes back to the previous state", async () => {
+        const { fetcher, requests } = controlledFetcher<number>();
+        const resource = createResource(fetcher);
+
+        const first = resource.load();
+        resource.cancel();
+        expect(requests[0].signal.aborted).toBe(true);
+        expect(resource.getSnapshot()).toBe(idle);
+        expect(isFailure(await first)).toBe(true);
+
+        const second = resource.load();
+        requests[1].resolve(success(1));
+        await second;
+        resource.refetch();
+        resource.cancel();
+        expect(resource.getSnapshot()).toEqual(success(1));
+    });
+
+    test("createResource turns thrown errors into failures", async () => {
+        const error = new Error("boom");
+        const resource = createResource(async (): Promise<Result<number, Error>> => {
+            throw error;
+        });
+
+        expect(await resource.load()).toEqual(failure(error));
+        expect(resource.getSnapshot()).toEqual(failure(error));
+    });
+});
@@ -18,9 +18,29 @@ import {
     fromOutcome,
     all,
     any,
+    allRecord,
+    anyRecord,
     match,
     map,
     chain,
+    mapAsync,
+    chainAsync,
+    tapAsync,
+    orElseAsync,
+    recoverAsync,
+    mapError,
+    bimap,
+    tap,
+    tapError,
+    orElse,
+    flatten,
+    swap,
+    filter,
+    zip,
+    zipWith,
+    and,
+    or,
+    Result,
 } from "~/result";
 
 describe("Result", () => {
@@ -301,6 +321,51 @@ describe("Result", () => {
             expect(isFailure(result)).toBe(true);
             expect((result as Failure<Error[]>).error).toEqual([error1, error2, error3]);
         });
+
+        test("all keeps the type of each position for tuples", () => {
+            const a = success(1) as Result<number, "a">;
+            const b = success("two") as Result<string, "b">;
+            const result: Result<[number, string], "a" | "b"> = all([a, b]);
+
+            expect(result).toEqual(success([1, "two"]));
+        });
+
+        test("any keeps the type of each position for tuples", () => {
+            const a = failure("a") as Result<number, "a">;
+            const b = failure(2) as Result<string, number>;
+            const result: Result<number | string, ["a", number]> = any([a, b]);
+
+            expect(result).toEqual(failure(["a", 2]));
+        });
+
+        test("allRecord returns a record of values when all results are successful", () => {
+            const user = success({ name: "Alice" }) as Result<{ name: string }, "no user">;
+            const prefs = success({ theme: "dark" }) as Result<{ theme: string }, "no prefs">;
+            const result: Result<{ user: { name: string }; prefs: { theme: string } }, "no user" | "no prefs"> =
+                allRecord({ user, prefs });
+
+            expect(result).toEqual(success({ user: { name: "Alice" }, prefs: { theme: "dark" } }));
+        });
+
+        test("allRecord returns the first failure", () => {
+            const result = allRecord({ a: success(1), b: failure("b"), c: failure("c") });
+
+            expect(result).toEqual(failure("b"));
+        });
+
+        test("anyRecord returns the first success", () => {
+            const result = anyRecord({ a: failure("a"), b: success(2), c: success(3) });
+
+            expect(result).toEqual(success(2));
+        });
+
+        test("anyRecord returns a record of errors when all results fail", () => {
+            const a = failure("a") as Result<number, "a">;
+            const b = failure(2) as Result<string, number>;
+            const result: Result<number | string, { a: "a"; b: number }> = anyRecord({ a, b });
+
+            expect(result).toEqual(failure({ a: "a", b: 2 }));
+        });
     });
 
     describe("Pattern matching", () => {
@@ -447,4 +512,249 @@ describe("Result", () => {
             expect(fn).not.toHaveBeenCalled();
         });
     });
+
+    describe("Error transformations", () => {
+        test("mapError transforms failure errors", () => {
+            const mapped = mapError(failure("error"), e => e.toUpperCase());
+
+            expect(mapped).toEqual(failure("ERROR"));
+        });
+
+        test("mapError doesn't transform success results", () => {
+            const fn = vi.fn();
+            const result = success(42);
+
+            expect(mapError(result, fn)).toBe(result);
+            expect(fn).not.toHaveBeenCalled();
+        });
+
+        test("bimap transforms either channel", () => {
+            const ok = success(21) as Result<number, string>;
+            const ko = failure("error") as Result<number, string>;
+            const double = (x: number) => x * 2;
+            const length = (e: string) => e.length;
+
+            expect(bimap(ok, double, length)).toEqual(success(42));
+            expect(bimap(ko, double, length)).toEqual(failure(5));
+        });
+
+        test("orElse maps a failure to another result", () => {
+            const result: Result<number, string> = failure("error");
+
+            expect(orElse(result, e => success(e.length))).toEqual(success(5));
+            expect(orElse(result, e => failure(new Error(e)))).toEqual(failure(new Error("error")));
+        });
+
+        test("orElse doesn't transform success results", () => {
+            const fn = vi.fn();
+            const result = success(42);
+
+            expect(orElse(result, fn)).toBe(result);
+            expect(fn).not.toHaveBeenCalled();
+        });
+
+        test("swap exchanges success and failure", () => {
+            expect(swap(success(42))).toEqual(failure(42));
+            expect(swap(failure("error"))).toEqual(success("error"));
+        });
+    });
+
+    describe("Side effects", () => {
+        test("tap runs on success values and returns the original result", () => {
+            const fn = vi.fn();
+            const result = success(42);
+
+            expect(tap(result, fn)).toBe(result);
+            expect(fn).toHaveBeenCalledWith(42);
+        });
+
+        test("tap skips failures", () => {
+            const fn = vi.fn();
+            const result = failure("error");
+
+            expect(tap(result, fn)).toBe(result);
+            expect(fn).not.toHaveBeenCalled();
+        });
+
+        test("tapError runs on failure errors and returns the original result", () => {
+            const fn = vi.fn();
+            const result = failure("error");
+
+            expect(tapError(result, fn)).toBe(result);
+            expect(fn).toHaveBeenCalledWith("error");
+        });
+
+        test("tapError skips successes", () => {
+            const fn = vi.fn();
+            const result = success(42);
+
+            expect(tapError(result, fn)).toBe(result);
+            expect(fn).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("Structural operations", () => {
+        test("flatten unwraps a nested result", () => {
+            expect(flatten(success(success(42)))).toEqual(success(42));
+            expect(flatten(success(failure("inner")))).toEqual(failure("inner"));
+            expect(flatten(failure("outer") as Result<Result<number, string>, string>)).toEqual(failure("outer"));
+        });
+
+        test("filter keeps success values that satisfy the predicate", () => {
+            const result = success(42);
+            const error = vi.fn();
+
+            expect(filter(result, x => x > 0, error)).toBe(result);
+            expect(error).not.toHaveBeenCalled();
+        });
+
+        test("filter turns rejected values into failures with the error factory", () => {
+            const filtered = filter(
+                success(-1),
+                x => x > 0,
+                x => `${x} is not positive`
+            );
+
+            expect(filtered).toEqual(failure("-1 is not positive"));
+        });
+
+        test("filter narrows with type guard predicates", () => {
+            const result: Result<string | number, Error> = success("text");
+            const filtered: Result<string, Error | string> = filter(
+                result,
+                (x): x is string => typeof x === "string",
+                () => "not a string"
+            );
+
+            expect(filtered).toEqual(success("text"));
+        });
+
+        test("filter preserves failures", () => {
+            const result = failure("error");
+            const predicate = vi.fn();
+
+            expect(filter(result, predicate, () => "other")).toBe(result);
+            expect(predicate).not.toHaveBeenCalled();
+        });
+
+        test("zip combines two successes into a pair", () => {
+            const zipped: Result<[number, string], Error | string> = zip(
+                success(42) as Result<number, Error>,
+                success("text") as Result<string, string>
+            );
+
+            expect(zipped).toEqual(success([42, "text"]));
+        });
+
+        test("zip returns the first failure", () => {
+            expect(zip(failure("a"), failure("b"))).toEqual(failure("a"));
+            expect(zip(success(1), failure("b"))).toEqual(failure("b"));
+        });
+
+        test("zipWith combines two successes with a function", () => {
+            expect(zipWith(success(40), success(2), (a, b) => a + b)).toEqual(success(42));
+            const error = failure("error") as Result<number, string>;
+            expect(zipWith(success(40), error, (a, b) => a + b)).toEqual(failure("error"));
+        });
+
+        test("and returns the second result when the first succeeds", () => {
+            expect(and(success(1), success(2))).toEqual(success(2));
+            expect(and(success(1), failure("b"))).toEqual(failure("b"));
+            expect(and(failure("a"), success(2))).toEqual(failure("a"));
+        });
+
+        test("or returns the first success", () => {
+            expect(or(success(1), success(2))).toEqual(success(1));
+            expect(or(failure("a"), success(2))).toEqual(success(2));
+            expect(or(failure("a"), failure("b"))).toEqual(failure("b"));
+        });
+    });
+
+    describe("Async combinators", () => {
+        test("mapAsync transforms success values with async functions", async () => {
+            const mapped: Result<number, Error> = await mapAsync(
+                fromPromise<number, Error>(Promise.resolve(21)),
+                async x => x * 2
+            );
+
+            expect(mapped).toEqual(success(42));
+        });
+
+        test("mapAsync accepts plain results and sync functions", async () => {
+            expect(await mapAsync(success(21), x => x * 2)).toEqual(success(42));
+        });
+
+        test("mapAsync doesn't transform failure results", async () => {
+            const error = new Error("test error");
+            const fn = vi.fn(async (x: number) => x * 2);
+            const mapped = await mapAsync(Promise.resolve(failure(error) as Result<number, Error>), fn);
+
+            expect(mapped).toEqual(failure(error));
+            expect(fn).not.toHaveBeenCalled();
+        });
+
+        test("chainAsync transforms success with functions returning promises of results", async () => {
+            const chained = await chainAsync(Promise.resolve(success(21)), x => fromTryAsync(async () => x * 2));
+
+            expect(chained).toEqual(success(42));
+        });
+
+        test("chainAsync short-circuits on failure", async () => {
+            const fn = vi.fn(async (x: number) => success(x * 2));
+            const chained = await chainAsync(
+                fromTryAsync<number, string>(() => Promise.reject("error")),
+                fn
+            );
+
+            expect(chained).toEqual(failure("error"));
+            expect(fn).not.toHaveBeenCalled();
+        });
+
+        test("chainAsync can transform success to failure", async () => {
+            const chained = await chainAsync(success(21), async () => failure("error"));
+
+            expect(chained).toEqual(failure("error"));
+        });
+
+        test("tapAsync waits for the side effect and returns the original result", async () => {
+            const seen: number[] = [];
+            const result = success(42);
+            const tapped = await tapAsync(Promise.resolve(result), async x => {
+                await Promise.resolve();
+                seen.push(x);
+            });
+
+            expect(tapped).toBe(result);
+            expect(seen).toEqual([42]);
+        });
+
+        test("tapAsync skips the side effect for failures", async () => {
+            const fn = vi.fn();
+            const tapped = await tapAsync(failure("error"), fn);
+
+            expect(tapped).toEqual(failure("error"));
+            expect(fn).not.toHaveBeenCalled();
+        });
+
+        test("orElseAsync maps a failure to another result", async () => {
+            const result: Result<number, string> = failure("error");
+
+            expect(await orElseAsync(result, async e => success(e.length))).toEqual(success(5));
+            expect(await orElseAsync(result, async e => failure(e.toUpperCase()))).toEqual(failure("ERROR"));
+        });
+
+        test("orElseAsync preserves success", async () => {
+            const fn = vi.fn(async () => success(0));
+
+            expect(await orElseAsync(Promise.resolve(success(42)), fn)).toEqual(success(42));
+            expect(fn).not.toHaveBeenCalled();
+        });
+
+        test("recoverAsync transforms a failure into a success", async () => {
+            const result: Result<number, string> = failure("error");
+
+            expect(await recoverAsync(result, async e => e.length)).toEqual(success(5));
+            expect(await recoverAsync(success(42), async () => 0)).toEqual(success(42));
+        });
+    });
 });
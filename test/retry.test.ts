@@ -0,0 +1,154 @@
+import { expect, test, describe, vi } from "vitest";
+import { fakeClock } from "!/fake-clock";
+import { Clock } from "~/clock";
+import { failure, fromTryAsync, isFailure, Result, success } from "~/result";
+import { constantBackoff, exponentialBackoff, jittered, linearBackoff, retry, RetryError } from "~/retry";
+
+/** An operation that fails the given number of times before succeeding */
+function flaky<V>(failures: number, value: V) {
+    return vi.fn(async (attempt: number): Promise<Result<V, string>> => {
+        return attempt <= failures ? failure(`error ${attempt}`) : success(value);
+    });
+}
+
+describe("Retry", () => {
+    describe("Backoff", () => {
+        test("constantBackoff always returns the same delay", () => {
+            const backoff = constantBackoff(50);
+            expect([1, 2, 3].map(backoff)).toEqual([50, 50, 50]);
+        });
+
+        test("exponentialBackoff multiplies the delay up to the max", () => {
+            const backoff = exponentialBackoff({ initial: 100, factor: 3, max: 1000 });
+            expect([1, 2, 3, 4].map(backoff)).toEqual([100, 300, 900, 1000]);
+        });
+
+        test("linearBackoff adds to the delay up to the max", () => {
+            const backoff = linearBackoff({ initial: 100, step: 50, max: 220 });
+            expect([1, 2, 3, 4].map(backoff)).toEqual([100, 150, 200, 220]);
+        });
+
+        test("jittered randomizes the delay between zero and the backoff", () => {
+            const backoff = jittered(constantBackoff(100), () => 0.25);
+            expect(backoff(1)).toBe(25);
+        });
+    });
+
+    describe("retry", () => {
+        test("retry returns the first success", async () => {
+            const clock = fakeClock();
+            const fn = flaky(2, "ok");
+
+            const result = await retry(fn, { clock });
+
+            expect(result).toEqual(success("ok"));
+            expect(fn).toHaveBeenCalledTimes(3);
+        });
+
+        test("retry fails with every attempt's error", async () => {
+            const clock = fakeClock();
+            const result = await retry(flaky(5, "ok"), { maxAttempts: 3, clock });
+
+            expect(isFailure(result)).toBe(true);
+            if (isFailure(result)) {
+                expect(result.error).toBeInstanceOf(RetryError);
+                expect(result.error._tag).toBe("RetryError");
+                expect(result.error.errors).toEqual(["error 1", "error 2", "error 3"]);
+                expect(result.error.cause).toBe("error 3");
+                expect(result.error.message).toBe("Failed after 3 attempts");
+            }
+        });
+
+        test("retry waits for the backoff between attempts", async () => {
+            const clock = fakeClock();
+
+            await retry(flaky(3, "ok"), {
+                maxAttempts: 4,
+                backoff: exponentialBackoff({ initial: 100 }),
+                clock,
+            });
+
+            expect(clock.sleeps).toEqual([100, 200, 400]);
+        });
+
+        test("retry stops when shouldRetry returns false", async () => {
+            const clock = fakeClock();
+            const shouldRetry = vi.fn((error: string, attempt: number) => attempt < 2);
+            const fn = flaky(5, "ok");
+
+            const result = await retry(fn, { maxAttempts: 5, shouldRetry, clock });
+
+            expect(fn).toHaveBeenCalledTimes(2);
+            expect(shouldRetry).toHaveBeenCalledWith("error 1", 1);
+            expect(isFailure(result) && result.error.errors).toEqual(["error 1", "error 2"]);
+        });
+
+        test("retry stops when the next attempt would exceed the max elapsed time", async () => {
+            const clock = fakeClock();
+            const fn = flaky(10, "ok");
+
+            await retry(fn, {
+                maxAttempts: 10,
+                maxElapsed: 500,
+                backoff: constantBackoff(200),
+                clock,
+            });
+
+            expect(fn).toHaveBeenCalledTimes(3);
+            expect(clock.sleeps).toEqual([200, 200]);
+        });
+
+        test("retry treats thrown errors as failures", async () => {
+            const clock = fakeClock();
+            let calls = 0;
+            const result = await retry(
+                () => {
+                    if (++calls < 2) {
+                        throw new Error("thrown");
+                    }
+                    return fromTryAsync(async () => calls);
+                },
+                { clock }
+            );
+
+            expect(result).toEqual(success(2));
+        });
+
+        test("retry stops when the signal is aborted", async () => {
+            const clock = fakeClock();
+            const controller = new AbortController();
+            const fn = vi.fn(async (attempt: number, signal?: AbortSignal) => {
+                expect(signal).toBe(controller.signal);
+                controller.abort();
+                return failure(`error ${attempt}`);
+            });
+
+            const result = await retry(fn, { maxAttempts: 5, clock, signal: controller.signal });
+
+            expect(fn).toHaveBeenCalledTimes(1);
+            expect(isFailure(result) && result.error.errors).toEqual(["error 1"]);
+        });
+
+        test("retry stops when the sleep is aborted", async () => {
+            const controller = new AbortController();
+            const clock: Clock = {
+                now: () => 0,
+                sleep: async () => {
+                    throw "aborted";
+                },
+            };
+            const fn = flaky(5, "ok");
+
+            const result = await retry(fn, { clock, signal: controller.signal });
+
+            expect(fn).toHaveBeenCalledTimes(1);
+            expect(isFailure(result)).toBe(true);
+        });
+
+        test("retry uses the system clock by default", async () => {
+            const result = await retry(flaky(1, "ok"));
+
+            expect(result).toEqual(success("ok"));
+        });
+    });
+});
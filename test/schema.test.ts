@@ -0,0 +1,67 @@
+import { expect, test, describe } from "vitest";
+import { failure, success } from "~/result";
+import { fromSchema, fromSchemaAsync, issuePath, SchemaIssue, StandardSchema } from "~/schema";
+import { formatPath } from "~/validate";
+
+interface User {
+    name: string;
+}
+
+/** A minimal Standard Schema, like the ones schema libraries provide */
+function userSchema(async = false): StandardSchema<unknown, User> {
+    const validate = (value: unknown) => {
+        const name = (value as User | null)?.name;
+        if (typeof name === "string") {
+            return { value: { name } };
+        }
+        return { issues: [{ message: "Expected a string", path: ["name"] }] };
+    };
+    return {
+        "~standard": {
+            version: 1,
+            vendor: "test",
+            validate: async ? async value => validate(value) : validate,
+        },
+    };
+}
+
+describe("Schema", () => {
+    test("fromSchema succeeds with the output of a sync schema", () => {
+        expect(fromSchema(userSchema(), { name: "Ada", extra: 1 })).toEqual(success({ name: "Ada" }));
+    });
+
+    test("fromSchema fails with the issues of a sync schema", () => {
+        expect(fromSchema(userSchema(), {})).toEqual(failure([{ message: "Expected a string", path: ["name"] }]));
+    });
+
+    test("fromSchema returns a promise for an async schema", async () => {
+        const result = fromSchema(userSchema(true), { name: "Ada" });
+
+        expect(result).toBeInstanceOf(Promise);
+        expect(await result).toEqual(success({ name: "Ada" }));
+    });
+
+    test("fromSchemaAsync always returns a promise", async () => {
+        const sync = fromSchemaAsync(userSchema(), {});
+        const async = fromSchemaAsync(userSchema(true), {});
+
+        expect(sync).toBeInstanceOf(Promise);
+        expect(await sync).toEqual(await async);
+    });
+
+    test("fromSchema infers the output type", () => {
+        const result = fromSchema(userSchema(), { name: "Ada" });
+        if (!(result instanceof Promise) && "value" in result) {
+            const name: string = result.value.name;
+            expect(name).toBe("Ada");
+        }
+    });
+
+    test("issuePath returns keys and indices for formatPath", () => {
+        const issue: SchemaIssue = { message: "Required", path: ["items", { key: 3 }, "unit price"] };
+
+        expect(issuePath(issue)).toEqual(["items", 3, "unit price"]);
+        expect(formatPath(issuePath(issue))).toBe('$.items[3]["unit price"]');
+        expect(issuePath({ message: "Invalid" })).toEqual([]);
+    });
+});
@@ -0,0 +1,145 @@
+import { expect, test, describe } from "vitest";
+import { pending } from "~/async";
+import { none, some } from "~/maybe";
+import { Failure, failure, isFailure, Result, success } from "~/result";
+import { isSerializedResult, parseResult, reviveResult, serializeResult, toJSON } from "~/serialize";
+import { defineError } from "~/tagged";
+
+class NotFound extends defineError("NotFound")<{ id: string }> {}
+
+/** Serializes and parses a result, like sending it over HTTP */
+function roundTrip<V, E>(result: Result<V, E>, errors = {}) {
+    return parseResult<Result<V, E>>(serializeResult(result), { errors });
+}
+
+describe("Serialize", () => {
+    describe("toJSON", () => {
+        test("toJSON encodes each kind of result", () => {
+            expect(toJSON(success(1))).toEqual({ $type: "success", value: 1 });
+            expect(toJSON(failure("oops"))).toEqual({ $type: "failure", error: "oops" });
+            expect(toJSON(none)).toEqual({ $type: "none" });
+            expect(toJSON(pending)).toEqual({ $type: "pending" });
+        });
+
+        test("toJSON encodes errors with their fields", () => {
+            const error = new NotFound({ id: "42", message: "User not found", cause: new TypeError("bad id") });
+            const json = toJSON(failure(error));
+
+            expect(json).toMatchObject({
+                $type: "failure",
+                error: {
+                    $type: "error",
+                    name: "NotFound",
+                    message: "User not found",
+                    stack: error.stack,
+                    cause: { $type: "error", name: "TypeError", message: "bad id" },
+                    fields: { _tag: "NotFound", id: "42" },
+                },
+            });
+        });
+
+        test("toJSON wraps plain objects that have a $type key", () => {
+            expect(toJSON(success({ $type: "none" }))).toEqual({
+                $type: "success",
+                value: { $type: "object", value: { $type: "none" } },
+            });
+        });
+    });
+
+    describe("parseResult", () => {
+        test("parseResult revives each kind of result", () => {
+            expect(roundTrip(success({ id: 1, tags: ["a"] }))).toEqual(success({ id: 1, tags: ["a"] }));
+            expect(roundTrip(failure("oops"))).toEqual(failure("oops"));
+            expect(roundTrip(some(1))).toEqual(some(1));
+            expect(roundTrip(none)).toBe(none);
+            expect(roundTrip(failure(null))).toEqual(failure(null));
+            expect(parseResult(serializeResult(pending))).toBe(pending);
+        });
+
+        test("parseResult keeps the name, message, stack and cause of errors", () => {
+            const error = new Error("outer", { cause: new RangeError("inner") });
+            const result = roundTrip(failure(error));
+
+            expect(isFailure(result)).toBe(true);
+            if (isFailure(result)) {
+                expect(result.error).toBeInstanceOf(Error);
+                expect(result.error.message).toBe("outer");
+                expect(result.error.stack).toBe(error.stack);
+                expect(result.error.cause).toBeInstanceOf(RangeError);
+                expect(result.error.cause).toMatchObject({ message: "inner" });
+            }
+        });
+
+        test("parseResult revives registered error classes", () => {
+            const result = roundTrip(failure(new NotFound({ id: "42", message: "User not found" })), { NotFound });
+
+            expect(isFailure(result)).toBe(true);
+            if (isFailure(result)) {
+                expect(result.error).toBeInstanceOf(NotFound);
+                expect(result.error).toMatchObject({ _tag: "NotFound", name: "NotFound", id: "42" });
+                expect(result.error.message).toBe("User not found");
+            }
+        });
+
+        test("parseResult revives unregistered errors as Error with their name and fields", () => {
+            const result = roundTrip(failure(new NotFound({ id: "42" })));
+
+            expect(isFailure(result)).toBe(true);
+            if (isFailure(result)) {
+                expect(result.error).toBeInstanceOf(Error);
+                expect(result.error).not.toBeInstanceOf(NotFound);
+                expect(result.error).toMatchObject({ name: "NotFound", _tag: "NotFound", id: "42" });
+            }
+        });
+
+        test("parseResult revives errors nested in values", () => {
+            const result = roundTrip(success({ errors: [new TypeError("a")] }));
+
+            expect(result).toEqual(success({ errors: [new TypeError("a")] }));
+        });
+
+        test("parseResult unwraps plain objects that have a $type key", () => {
+            expect(roundTrip(success({ $type: "none" }))).toEqual(success({ $type: "none" }));
+        });
+
+        test("parseResult drops cyclic causes", () => {
+            const error = new Error("loop");
+            error.cause = error;
+            const result = roundTrip(failure(error));
+
+            expect(isFailure(result) && result.error.cause).toBeUndefined();
+        });
+    });
+
+    describe("reviveResult", () => {
+        test("reviveResult throws on values that are not in the wire format", () => {
+            expect(() => reviveResult({ value: 1 })).toThrow(TypeError);
+            expect(() => reviveResult(null)).toThrow(TypeError);
+        });
+
+        test("reviveResult only looks up error names that are registered", () => {
+            for (const name of ["toString", "hasOwnProperty", "__proto__", "constructor"]) {
+                const text = JSON.stringify({ $type: "failure", error: { $type: "error", name, message: "boom" } });
+                const { error } = parseResult(text) as Failure<Error>;
+
+                expect(Object.getPrototypeOf(error)).toBe(Error.prototype);
+                expect(error.name).toBe(name);
+                expect(error.message).toBe("boom");
+            }
+        });
+
+        test("reviveResult keeps a __proto__ field as an own field", () => {
+            const text =
+                '{"$type":"failure","error":{"$type":"error","name":"Error","message":"x","fields":{"__proto__":1}}}';
+            const { error } = parseResult(text) as Failure<Error>;
+
+            expect(Object.getPrototypeOf(error)).toBe(Error.prototype);
+            expect(Object.getOwnPropertyDescriptor(error, "__proto__")?.value).toBe(1);
+        });
+
+        test("isSerializedResult identifies the wire format", () => {
+            expect(isSerializedResult(toJSON(success(1)))).toBe(true);
+            expect(isSerializedResult(success(1))).toBe(false);
+        });
+    });
+});
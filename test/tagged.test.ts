@@ -0,0 +1,138 @@
+import { expect, test, describe, vi } from "vitest";
+import { failure, Result, success } from "~/result";
+import { catchTag, catchTags, defineError, isTaggedError, matchError, MatchErrorHandlers } from "~/tagged";
+
+class NotFound extends defineError("NotFound")<{ id: string }> {}
+class Conflict extends defineError("Conflict")<{ version: number }> {}
+class RateLimited extends defineError("RateLimited") {}
+
+type AppError = NotFound | Conflict | RateLimited;
+
+function load(error?: AppError): Result<string, AppError> {
+    return error ? failure(error) : success("data");
+}
+
+describe("Tagged errors", () => {
+    describe("defineError", () => {
+        test("creates Error subclasses with a literal tag", () => {
+            const error = new NotFound({ id: "42" });
+
+            expect(error).toBeInstanceOf(Error);
+            expect(error).toBeInstanceOf(NotFound);
+            expect(error._tag).toBe("NotFound");
+            expect(error.name).toBe("NotFound");
+            expect(error.id).toBe("42");
+            expect(error.stack).toBeDefined();
+        });
+
+        test("passes message and cause to the Error constructor", () => {
+            const cause = new Error("root cause");
+            const error = new Conflict({ version: 2, message: "Version mismatch", cause });
+
+            expect(error.message).toBe("Version mismatch");
+            expect(error.cause).toBe(cause);
+            expect(error.version).toBe(2);
+            expect(Object.keys(error)).not.toContain("message");
+        });
+
+        test("props are optional when there are no fields", () => {
+            const error = new RateLimited();
+
+            expect(error._tag).toBe("RateLimited");
+            expect(error.message).toBe("");
+        });
+
+        test("isTaggedError checks for tagged errors", () => {
+            expect(isTaggedError(new NotFound({ id: "1" }))).toBe(true);
+            expect(isTaggedError(new NotFound({ id: "1" }), "NotFound")).toBe(true);
+            expect(isTaggedError(new NotFound({ id: "1" }), "Conflict")).toBe(false);
+            expect(isTaggedError(new Error("plain"))).toBe(false);
+            expect(isTaggedError({ _tag: "NotFound" })).toBe(false);
+        });
+    });
+
+    describe("catchTag", () => {
+        test("handles failures with the given tag", () => {
+            const result: Result<string, Conflict | RateLimited> = catchTag(
+                load(new NotFound({ id: "1" })),
+                "NotFound",
+                error => success(`default for ${error.id}`)
+            );
+
+            expect(result).toEqual(success("default for 1"));
+        });
+
+        test("passes through failures with other tags", () => {
+            const error = new Conflict({ version: 1 });
+            const handler = vi.fn();
+
+            expect(catchTag(load(error), "NotFound", handler)).toEqual(failure(error));
+            expect(handler).not.toHaveBeenCalled();
+        });
+
+        test("passes through successes and untagged errors", () => {
+            const handler = vi.fn();
+            const plain: Result<string, Error | NotFound> = failure(new Error("plain"));
+
+            expect(catchTag(load(), "NotFound", handler)).toEqual(success("data"));
+            expect(catchTag(plain, "NotFound", handler)).toBe(plain);
+            expect(handler).not.toHaveBeenCalled();
+        });
+
+        test("handler can fail with a new error", () => {
+            const result = catchTag(load(new NotFound({ id: "1" })), "NotFound", () => failure("gone" as const));
+
+            expect(result).toEqual(failure("gone"));
+        });
+    });
+
+    describe("catchTags", () => {
+        test("handles failures with any of the given tags", () => {
+            const handlers = {
+                NotFound: (error: NotFound) => success(error.id),
+                Conflict: (error: Conflict) => success(`v${error.version}`),
+            };
+
+            const notFound: Result<string, RateLimited> = catchTags(load(new NotFound({ id: "1" })), handlers);
+            const conflict = catchTags(load(new Conflict({ version: 2 })), handlers);
+
+            expect(notFound).toEqual(success("1"));
+            expect(conflict).toEqual(success("v2"));
+        });
+
+        test("passes through unhandled failures", () => {
+            const error = new RateLimited();
+
+            expect(catchTags(load(error), { NotFound: () => success("x") })).toEqual(failure(error));
+        });
+
+        test("infers handler callback types", () => {
+            const result = catchTags(load(new Conflict({ version: 3 })), {
+                Conflict: error => (error.version > 2 ? failure("too new" as const) : success(error.version)),
+            });
+
+            expect(result).toEqual(failure("too new"));
+        });
+    });
+
+    describe("matchError", () => {
+        test("calls the handler for the tag of the error", () => {
+            const describe = (error: AppError) =>
+                matchError(error, {
+                    NotFound: e => `missing ${e.id}`,
+                    Conflict: e => `conflict at v${e.version}`,
+                    RateLimited: () => "slow down",
+                });
+
+            expect(describe(new NotFound({ id: "1" }))).toBe("missing 1");
+            expect(describe(new Conflict({ version: 2 }))).toBe("conflict at v2");
+            expect(describe(new RateLimited())).toBe("slow down");
+        });
+
+        test("throws for unhandled tags at runtime", () => {
+            const handlers = { NotFound: () => "missing" } as unknown as MatchErrorHandlers<AppError, string>;
+
+            expect(() => matchError(new RateLimited() as AppError, handlers)).toThrow("Unhandled value");
+        });
+    });
+});
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, expect, test, describe, vi } from "vitest";
+import { failure, isFailure, success } from "~/result";
+import { catchTag } from "~/tagged";
+import { AbortedError, TimeoutError, withSignal, withTimeout } from "~/timeout";
+
+const never = <T>() => new Promise<T>(() => {});
+
+describe("Timeout", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe("withTimeout", () => {
+        test("withTimeout resolves with the value if the operation is fast enough", async () => {
+            const result = await withTimeout(Promise.resolve(42), 100);
+
+            expect(result).toEqual(success(42));
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        test("withTimeout fails with the rejection like fromPromise", async () => {
+            const error = new Error("boom");
+            const result = await withTimeout(Promise.reject(error), 100);
+
+            expect(result).toEqual(failure(error));
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        test("withTimeout fails with a TimeoutError if the operation takes too long", async () => {
+            const promise = withTimeout(never<number>(), 100);
+            await vi.advanceTimersByTimeAsync(100);
+            const result = await promise;
+
+            expect(isFailure(result)).toBe(true);
+            if (isFailure(result)) {
+                expect(result.error).toBeInstanceOf(TimeoutError);
+                expect(result.error).toMatchObject({ _tag: "TimeoutError", ms: 100 });
+                expect((result.error as TimeoutError).message).toBe("Timed out after 100ms");
+            }
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        test("withTimeout aborts the signal passed to the function on timeout", async () => {
+            const signals: AbortSignal[] = [];
+            const promise = withTimeout(signal => {
+                signals.push(signal);
+                return never<number>();
+            }, 100);
+
+            expect(signals[0].aborted).toBe(false);
+            await vi.advanceTimersByTimeAsync(100);
+            await promise;
+
+            expect(signals[0].aborted).toBe(true);
+            expect(signals[0].reason).toBeInstanceOf(TimeoutError);
+        });
+
+        test("withTimeout does not abort the signal when the operation finishes", async () => {
+            const signals: AbortSignal[] = [];
+            await withTimeout(async signal => {
+                signals.push(signal);
+                return 42;
+            }, 100);
+
+            expect(signals[0].aborted).toBe(false);
+        });
+
+        test("withTimeout uses the injected clock", async () => {
+            const sleep = vi.fn(() => Promise.resolve());
+            const result = await withTimeout(never<number>(), 5000, { clock: { now: () => 0, sleep } });
+
+            expect(sleep).toHaveBeenCalledWith(5000, expect.any(AbortSignal));
+            expect(isFailure(result) && result.error).toBeInstanceOf(TimeoutError);
+        });
+
+        test("timeouts can be handled by tag", async () => {
+            const promise = withTimeout<number, Error>(never(), 100);
+            await vi.advanceTimersByTimeAsync(100);
+
+            expect(catchTag(await promise, "TimeoutError", () => success(0))).toEqual(success(0));
+        });
+    });
+
+    describe("withSignal", () => {
+        test("withSignal resolves with the value and passes the signal down", async () => {
+            const controller = new AbortController();
+            const fn = vi.fn(async () => 42);
+
+            expect(await withSignal(fn, controller.signal)).toEqual(success(42));
+            expect(fn).toHaveBeenCalledWith(controller.signal);
+        });
+
+        test("withSignal fails with the rejection", async () => {
+            const controller = new AbortController();
+
+            expect(await withSignal(() => Promise.reject("boom"), controller.signal)).toEqual(failure("boom"));
+        });
+
+        test("withSignal fails with an AbortedError when aborted", async () => {
+            const controller = new AbortController();
+            const promise = withSignal(() => never<number>(), controller.signal);
+
+            controller.abort("cancelled");
+            const result = await promise;
+
+            expect(isFailure(result)).toBe(true);
+            if (isFailure(result)) {
+                expect(result.error).toBeInstanceOf(AbortedError);
+                expect((result.error as AbortedError).cause).toBe("cancelled");
+            }
+        });
+
+        test("withSignal reports rejections caused by the abort as an AbortedError", async () => {
+            const controller = new AbortController();
+            const promise = withSignal(
+                signal =>
+                    new Promise<number>((_, reject) => signal.addEventListener("abort", () => reject(signal.reason))),
+                controller.signal
+            );
+
+            controller.abort("cancelled");
+
+            expect(isFailure(await promise) && (await promise)).toMatchObject({
+                error: { _tag: "AbortedError", cause: "cancelled" },
+            });
+        });
+
+        test("withSignal does not run the function if the signal is already aborted", async () => {
+            const fn = vi.fn();
+            const result = await withSignal(fn, AbortSignal.abort("cancelled"));
+
+            expect(fn).not.toHaveBeenCalled();
+            expect(isFailure(result) && result.error).toBeInstanceOf(AbortedError);
+        });
+    });
+});
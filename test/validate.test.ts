@@ -0,0 +1,107 @@
+import { expect, test, describe } from "vitest";
+import { failure, isFailure, Result, success } from "~/result";
+import { NonEmptyArray } from "~/types";
+import { collectErrors, FieldError, formatPath, validate, validateFields } from "~/validate";
+
+const required = (value: string): Result<string, string> => (value ? success(value) : failure("required"));
+const positive = (value: number): Result<number, "negative"> => (value >= 0 ? success(value) : failure("negative"));
+
+describe("Validation", () => {
+    describe("collectErrors", () => {
+        test("collectErrors returns the errors of every failure in order", () => {
+            expect(collectErrors([success(1), failure("a"), success(2), failure("b")])).toEqual(["a", "b"]);
+        });
+
+        test("collectErrors returns an empty array when there are no failures", () => {
+            expect(collectErrors([success(1), success(2)])).toEqual([]);
+        });
+    });
+
+    describe("validate", () => {
+        test("validate returns all values when every result succeeds", () => {
+            const result: Result<[string, number], NonEmptyArray<string | "negative">> = validate([
+                required("name"),
+                positive(42),
+            ]);
+
+            expect(result).toEqual(success(["name", 42]));
+        });
+
+        test("validate returns every error instead of the first one", () => {
+            const result = validate([required(""), positive(1), positive(-1)]);
+
+            expect(result).toEqual(failure(["required", "negative"]));
+        });
+
+        test("validate accepts records", () => {
+            const ok: Result<{ name: string; age: number }, NonEmptyArray<string>> = validate({
+                name: required("Alice"),
+                age: positive(30),
+            });
+            const ko = validate({ name: required(""), age: positive(-1) });
+
+            expect(ok).toEqual(success({ name: "Alice", age: 30 }));
+            expect(ko).toEqual(failure(["required", "negative"]));
+        });
+
+        test("validate accepts iterables", () => {
+            const results = new Set([positive(1), positive(2)]);
+
+            expect(validate(results)).toEqual(success([1, 2]));
+            expect(validate([])).toEqual(success([]));
+        });
+    });
+
+    describe("validateFields", () => {
+        test("validateFields wraps errors with the key where they happened", () => {
+            const result = validateFields({ name: required(""), age: positive(-1) });
+
+            expect(result).toEqual(
+                failure([new FieldError(["name"], "required"), new FieldError(["age"], "negative")])
+            );
+        });
+
+        test("validateFields uses indexes for arrays", () => {
+            const result = validateFields([positive(1), positive(-1)]);
+
+            expect(result).toEqual(failure([new FieldError([1], "negative")]));
+        });
+
+        test("validateFields merges nested validations with their paths", () => {
+            const items = [{ price: 10 }, { price: -1 }, { price: -2 }];
+            const result = validateFields({
+                name: required(""),
+                order: validateFields({
+                    items: validateFields(items.map(item => validateFields({ price: positive(item.price) }))),
+                }),
+            });
+
+            expect(isFailure(result)).toBe(true);
+            if (isFailure(result)) {
+                const errors: NonEmptyArray<FieldError<string>> = result.error;
+                expect(errors.map(e => [formatPath(e.path), e.error])).toEqual([
+                    ["$.name", "required"],
+                    ["$.order.items[1].price", "negative"],
+                    ["$.order.items[2].price", "negative"],
+                ]);
+            }
+        });
+
+        test("validateFields returns the nested values on success", () => {
+            const result = validateFields({
+                name: required("Alice"),
+                address: validateFields({ city: required("Paris") }),
+            });
+
+            expect(result).toEqual(success({ name: "Alice", address: { city: "Paris" } }));
+        });
+    });
+
+    describe("formatPath", () => {
+        test("formatPath formats paths as JSON paths", () => {
+            expect(formatPath([])).toBe("$");
+            expect(formatPath(["items", 3, "price"])).toBe("$.items[3].price");
+            expect(formatPath(["content-type", "a b"])).toBe('$["content-type"]["a b"]');
+        });
+    });
+});